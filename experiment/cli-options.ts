@@ -0,0 +1,46 @@
+// Validation of the numeric and enum flags of the CLIs. `parseArgs` hands every value over as a
+// string, and `Number` would take "", "2.5", "0x10" or "foo" (NaN) without complaint.
+
+export function parsePositiveInteger(value: string, name: string) {
+  if (!/^\d+$/.test(value.trim()) || Number(value) < 1) {
+    throw new Error(`Invalid ${name} '${value}', expected a positive integer`);
+  }
+
+  return Number(value);
+}
+
+// Zero allowed, e.g. a slippage or priority fee
+export function parseNonNegativeInteger(value: string, name: string) {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(
+      `Invalid ${name} '${value}', expected a non-negative integer`,
+    );
+  }
+
+  return Number(value);
+}
+
+// Fractions allowed, e.g. an interval in seconds
+export function parsePositiveNumber(value: string, name: string) {
+  const number = /^\d*\.?\d+$/.test(value.trim()) ? Number(value) : NaN;
+
+  if (!(number > 0)) {
+    throw new Error(`Invalid ${name} '${value}', expected a positive number`);
+  }
+
+  return number;
+}
+
+export function parseChoice<T extends string>(
+  value: string,
+  name: string,
+  choices: readonly T[],
+): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Invalid ${name} '${value}', expected one of ${choices.join(", ")}`,
+    );
+  }
+
+  return value as T;
+}
@@ -0,0 +1,144 @@
+import { Commitment, Connection } from "@solana/web3.js";
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Cluster / RPC selection shared by every script in the toolkit. Settings are resolved from, in
+// order of precedence:
+//
+//   1. the `--cluster <localnet|devnet|mainnet-beta>` flag
+//   2. environment variables (also read from `.env`): `CLUSTER`, `RPC_URL` (or `RPC_ENDPOINT`),
+//      `WS_URL`, `COMMITMENT` and `KEYPAIR`. `RPC_URL_<CLUSTER>` and `WS_URL_<CLUSTER>`
+//      (`RPC_URL_DEVNET`, `RPC_URL_MAINNET_BETA`...) set the endpoints of one cluster and win over
+//      the plain ones, which belong to `CLUSTER` and are ignored when `--cluster` picks another
+//   3. `surfpool-config.yml`: its RPC / websocket URLs describe the local cluster, its keypair and
+//      commitment are the toolkit wide defaults
+//   4. the script's own `defaultCluster` and the public RPC of that cluster
+//
+// so `CLUSTER=devnet` (or `--cluster devnet`) switches the whole toolkit at once, while each script
+// keeps targeting the cluster its programs live on when nothing is set.
+
+const CONFIG_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+export const SURFPOOL_CONFIG_PATH = path.join(CONFIG_DIR, "surfpool-config.yml");
+
+export const CLUSTERS = ["localnet", "devnet", "mainnet-beta"] as const;
+
+export type Cluster = (typeof CLUSTERS)[number];
+
+export const CLUSTER_RPC_URLS: Record<Cluster, string> = {
+  localnet: "http://127.0.0.1:8899",
+  devnet: "https://api.devnet.solana.com",
+  "mainnet-beta": "https://api.mainnet-beta.solana.com",
+};
+
+export type ToolkitConfig = {
+  cluster: Cluster;
+  rpcUrl: string;
+  // Derived from `rpcUrl` by `Connection` when unset
+  wsUrl?: string;
+  commitment: Commitment;
+  keypairPath: string;
+};
+
+// `surfpool-config.yml` is a flat `key: value` file (the Solana CLI config format), so the scalar
+// top level entries are all we need from it
+export function readSurfpoolConfig(configPath = SURFPOOL_CONFIG_PATH) {
+  if (!fs.existsSync(configPath)) return {};
+
+  const entries = fs
+    .readFileSync(configPath, "utf8")
+    .split("\n")
+    .map((line) => line.match(/^([a-z_]+):\s*(.*?)\s*$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, key, value]) => [key, value.replace(/^(['"])(.*)\1$/, "$2")]);
+
+  const config = Object.fromEntries(entries) as Record<string, string>;
+
+  return {
+    rpcUrl: config.json_rpc_url || undefined,
+    wsUrl: config.websocket_url || undefined,
+    commitment: (config.commitment || undefined) as Commitment | undefined,
+    // Relative to the config file, like the Solana CLI does
+    keypairPath: config.keypair_path
+      ? path.resolve(path.dirname(configPath), config.keypair_path)
+      : undefined,
+  };
+}
+
+function getClusterFlag(argv: string[]) {
+  const index = argv.findIndex(
+    (arg) => arg === "--cluster" || arg.startsWith("--cluster="),
+  );
+
+  if (index === -1) return undefined;
+
+  return argv[index].includes("=")
+    ? argv[index].split("=")[1]
+    : argv[index + 1];
+}
+
+function parseCluster(value: string) {
+  // Accept the Solana CLI's monikers too
+  const cluster =
+    { mainnet: "mainnet-beta", localhost: "localnet" }[value] ?? value;
+
+  if (!CLUSTERS.includes(cluster as Cluster)) {
+    throw new Error(
+      `Unknown cluster: ${value} (expected one of ${CLUSTERS.join(", ")})`,
+    );
+  }
+
+  return cluster as Cluster;
+}
+
+export function loadConfig({
+  defaultCluster = "devnet",
+  env = process.env,
+  argv = process.argv.slice(2),
+  configPath = SURFPOOL_CONFIG_PATH,
+}: {
+  defaultCluster?: Cluster;
+  env?: NodeJS.ProcessEnv;
+  argv?: string[];
+  configPath?: string;
+} = {}): ToolkitConfig {
+  const surfpool = readSurfpoolConfig(configPath);
+  const clusterFlag = getClusterFlag(argv);
+  const envCluster = env.CLUSTER ? parseCluster(env.CLUSTER) : undefined;
+  const cluster = clusterFlag
+    ? parseCluster(clusterFlag)
+    : (envCluster ?? defaultCluster);
+  const isLocalnet = cluster === "localnet";
+  // `RPC_URL=<devnet rpc> tsx script.ts --cluster mainnet-beta` must not send to devnet
+  const useEnvEndpoints = !clusterFlag || envCluster === cluster;
+  const envSuffix = cluster.toUpperCase().replace("-", "_");
+
+  return {
+    cluster,
+    rpcUrl:
+      env[`RPC_URL_${envSuffix}`] ??
+      (useEnvEndpoints ? (env.RPC_URL ?? env.RPC_ENDPOINT) : undefined) ??
+      (isLocalnet ? surfpool.rpcUrl : undefined) ??
+      CLUSTER_RPC_URLS[cluster],
+    wsUrl:
+      env[`WS_URL_${envSuffix}`] ??
+      (useEnvEndpoints ? env.WS_URL : undefined) ??
+      (isLocalnet ? surfpool.wsUrl : undefined),
+    commitment:
+      (env.COMMITMENT as Commitment | undefined) ??
+      surfpool.commitment ??
+      "confirmed",
+    keypairPath: env.KEYPAIR
+      ? path.resolve(env.KEYPAIR)
+      : (surfpool.keypairPath ?? path.join(CONFIG_DIR, "dev-wallet.json")),
+  };
+}
+
+export function createConnection(config: ToolkitConfig) {
+  return new Connection(config.rpcUrl, {
+    commitment: config.commitment,
+    wsEndpoint: config.wsUrl,
+  });
+}
@@ -1,8 +1,6 @@
 import 'dotenv/config';
-import fs from 'fs';
 import { BN } from 'bn.js';
-import { Connection, Keypair, PublicKey, Commitment } from '@solana/web3.js';
-import { Wallet } from '@project-serum/anchor';
+import { PublicKey } from '@solana/web3.js';
 import {
   DriftClient,
   OrderType,
@@ -10,19 +8,14 @@ import {
   SpotMarkets,
   TokenFaucet,
 } from '@drift-labs/sdk';
-
-// ---------- helper to load the keypair ----------
-function loadKeypair(path: string): Keypair {
-  const secret = JSON.parse(fs.readFileSync(path, 'utf8'));
-  return Keypair.fromSecretKey(new Uint8Array(secret));
-}
+import { createConnection, loadConfig } from '../config';
+import { loadWallet } from '../wallet';
 
 async function main() {
   /*** 1. basic setup ***/
-  const commitment: Commitment = 'confirmed';
-  const connection = new Connection(process.env.RPC_ENDPOINT!, commitment);
-  const keypair     = loadKeypair(process.env.KEYPAIR!);
-  const wallet      = new Wallet(keypair);
+  const config      = loadConfig({ defaultCluster: 'devnet' });
+  const connection  = createConnection(config);
+  const { wallet }  = loadWallet();
 
   /*** 2. spin‑up the Drift client ***/
   const driftProgramId = new PublicKey(
@@ -33,7 +26,8 @@ async function main() {
     connection,
     wallet,
     programID: driftProgramId,
-    env: process.env.CLUSTER as 'devnet' | 'mainnet-beta',
+    // Drift has no localnet environment, a local fork mirrors mainnet
+    env: config.cluster === 'devnet' ? 'devnet' : 'mainnet-beta',
     accountSubscription: { type: 'websocket' },
   });
 
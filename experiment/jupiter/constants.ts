@@ -2,7 +2,6 @@ import { AnchorProvider, Program, Wallet } from "@coral-xyz/anchor";
 import { Keypair, PublicKey } from "@solana/web3.js";
 import { IDL, type Perpetuals } from "../idl/jupiter-perpetuals-idl.ts";
 import { connection } from "./utils.ts";
-import { BN } from "bn.js";
 
 
 
@@ -16,6 +15,12 @@ export const JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY = new PublicKey(
   "37hJBDnntwqhGbK7L6M1bLyvccj4u55CCUiLPdYkiqBN",
 );
 
+// Global `Perpetuals` state PDA, required by every request instruction
+export const JUPITER_PERPETUALS_PUBKEY = PublicKey.findProgramAddressSync(
+  [Buffer.from("perpetuals")],
+  JUPITER_PERPETUALS_PROGRAM_ID,
+)[0];
+
 export const JLP_POOL_ACCOUNT_PUBKEY = new PublicKey(
   "5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq",
 );
@@ -50,7 +55,42 @@ export const CUSTODY_PUBKEYS = [
   new PublicKey(CUSTODY_PUBKEY.USDT),
 ];
 
-export const USDC_DECIMALS = 6;
-export const BPS_POWER = new BN(10_000);
-export const DBPS_POWER = new BN(100_000);
-export const RATE_POWER = new BN(1_000_000_000);
+// `SOL`, `ETH`... for the custodies above, the address itself for any other
+export function custodySymbol(custody: PublicKey | string) {
+  const address = custody.toString();
+  const entry = Object.entries(CUSTODY_PUBKEY).find(
+    ([, pubkey]) => pubkey === address,
+  );
+
+  return entry ? entry[0] : address;
+}
+
+export const DOVES_PROGRAM_ID = new PublicKey(
+  "DoVEsk76QybCEHQGzkvYPWLQu9gzNoZZZt3TPiL597e",
+);
+
+// Token mint and Doves price feed for each custody in the JLP pool
+export const CUSTODY_DETAILS = {
+  [CUSTODY_PUBKEY.SOL]: {
+    mint: new PublicKey("So11111111111111111111111111111111111111112"),
+    dovesOracle: new PublicKey("39cWjvHrpHNz2SbXv6ME4NPhqBDBd4KsjUYv5JkHEAJU"),
+  },
+  [CUSTODY_PUBKEY.ETH]: {
+    mint: new PublicKey("7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs"),
+    dovesOracle: new PublicKey("5URYohbPy32nxK1t3jAHVNfdWY2xTubHiFvLrE3VhXEp"),
+  },
+  [CUSTODY_PUBKEY.BTC]: {
+    mint: new PublicKey("3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh"),
+    dovesOracle: new PublicKey("4HBbPx9QJdjJ7GUe6bsiJjGybvfpDhQMMPXP1UEa7VT5"),
+  },
+  [CUSTODY_PUBKEY.USDC]: {
+    mint: new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
+    dovesOracle: new PublicKey("A28T5pKtscnhDo6C1Sz786Tup88aTjt8uyKewjVvPrGk"),
+  },
+  [CUSTODY_PUBKEY.USDT]: {
+    mint: new PublicKey("Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"),
+    dovesOracle: new PublicKey("AGW7q2a3WxCzh5TB2Q6yNde1Nf41g3HLaaXdybz7cbBU"),
+  },
+};
+
+export { BPS_POWER, DBPS_POWER, RATE_POWER, USDC_DECIMALS } from "./units";
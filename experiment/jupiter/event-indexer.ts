@@ -0,0 +1,143 @@
+import { Program } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY } from "./constants";
+import { decodeTransactionEvents } from "./events";
+import { JsonlEventStore, toEventRecord } from "./event-store";
+
+// Every transaction that emits a Jupiter Perpetuals CPI event touches the event authority, so
+// `getSignaturesForAddress(eventAuthority)` lists them all, newest first. A run pages backwards from
+// the tip with `before` until it reaches the newest signature of the previous run (`until`), so each
+// signature is only processed once. The cursor is checkpointed after every page, an interrupted run
+// picks up where it left off.
+
+export type SyncOptions = {
+  // Stop after this many pages, leaving the cursor in the checkpoint for the next run
+  maxPages?: number;
+  // Don't page back past this unix timestamp (seconds), only relevant for the initial backfill
+  since?: number;
+  onPage?: (page: SyncPage) => void;
+};
+
+export type SyncPage = {
+  signatures: number;
+  events: number;
+  oldestBlockTime: number | null;
+};
+
+export type SyncResult = {
+  pages: number;
+  signatures: number;
+  events: number;
+  // `false` when the run stopped at `maxPages` and will resume from the checkpoint
+  complete: boolean;
+};
+
+export class PerpetualsEventIndexer {
+  private readonly address: PublicKey;
+  private readonly pageSize: number;
+
+  constructor(
+    private readonly program: Program<Perpetuals>,
+    private readonly store: JsonlEventStore,
+    {
+      address = JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+      pageSize = 100,
+    }: { address?: PublicKey; pageSize?: number } = {},
+  ) {
+    this.address = address;
+    this.pageSize = pageSize;
+  }
+
+  private get connection() {
+    return this.program.provider.connection;
+  }
+
+  async sync({
+    maxPages = Infinity,
+    since,
+    onPage,
+  }: SyncOptions = {}): Promise<SyncResult> {
+    const checkpoint = this.store.readCheckpoint();
+    const until = checkpoint.newestSignature;
+    let before = checkpoint.cursor;
+    let runNewestSignature = checkpoint.runNewestSignature;
+
+    const result: SyncResult = {
+      pages: 0,
+      signatures: 0,
+      events: 0,
+      complete: false,
+    };
+
+    while (result.pages < maxPages) {
+      const signatureInfos = await this.connection.getSignaturesForAddress(
+        this.address,
+        { before, until, limit: this.pageSize },
+        "confirmed",
+      );
+
+      if (signatureInfos.length === 0) {
+        result.complete = true;
+        break;
+      }
+
+      runNewestSignature ??= signatureInfos[0].signature;
+
+      // We ignore failed transactions, they don't emit events
+      const successSignatures = signatureInfos
+        .filter(({ err }) => err === null)
+        .map(({ signature }) => signature);
+
+      const txs =
+        successSignatures.length > 0
+          ? await this.connection.getTransactions(successSignatures, {
+              commitment: "confirmed",
+              maxSupportedTransactionVersion: 0,
+            })
+          : [];
+
+      const records = txs.flatMap((tx) =>
+        tx ? decodeTransactionEvents(this.program, tx).map(toEventRecord) : [],
+      );
+      const written = await this.store.append(records);
+
+      before = signatureInfos[signatureInfos.length - 1].signature;
+      this.store.writeCheckpoint({
+        newestSignature: until,
+        cursor: before,
+        runNewestSignature,
+      });
+
+      const oldestBlockTime =
+        signatureInfos[signatureInfos.length - 1].blockTime ?? null;
+
+      result.pages += 1;
+      result.signatures += signatureInfos.length;
+      result.events += written;
+      onPage?.({
+        signatures: signatureInfos.length,
+        events: written,
+        oldestBlockTime,
+      });
+
+      if (
+        signatureInfos.length < this.pageSize ||
+        (since !== undefined &&
+          oldestBlockTime !== null &&
+          oldestBlockTime < since)
+      ) {
+        result.complete = true;
+        break;
+      }
+    }
+
+    if (result.complete) {
+      this.store.writeCheckpoint({
+        newestSignature: runNewestSignature ?? until,
+      });
+    }
+
+    return result;
+  }
+}
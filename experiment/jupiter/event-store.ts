@@ -0,0 +1,214 @@
+import { IdlEvents } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { PublicKey } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { DecodedPerpetualsEvent, PerpetualsEventName } from "./events";
+
+// Decoded events are persisted as one JSON record per line (`events.jsonl`) next to the indexer's
+// checkpoint (`checkpoint.json`). `PublicKey`s and `BN`s are stored as base58 / decimal strings so
+// the file stays greppable and can be loaded by anything that reads JSON.
+
+export type Serialized<T> = T extends PublicKey
+  ? string
+  : T extends BN
+    ? string
+    : T extends null
+      ? null
+      : T extends object
+        ? { [K in keyof T]: Serialized<T[K]> }
+        : T;
+
+type EventRecordOf<EventName extends PerpetualsEventName> = {
+  // `<signature>:<outerIxIndex>:<ixIndex>`, unique per emitted event
+  id: string;
+  name: EventName;
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  outerIxIndex: number;
+  ixIndex: number;
+  // Wallet and custodies the event relates to, lifted out of `data` for querying
+  owner: string | null;
+  custodies: string[];
+  data: Serialized<IdlEvents<Perpetuals>[EventName]>;
+};
+
+export type PerpetualsEventRecord = {
+  [EventName in PerpetualsEventName]: EventRecordOf<EventName>;
+}[PerpetualsEventName];
+
+export type EventQuery = {
+  wallet?: PublicKey | string;
+  custody?: PublicKey | string;
+  eventTypes?: PerpetualsEventName[];
+  // Unix timestamps (seconds), inclusive
+  fromTime?: number;
+  toTime?: number;
+  limit?: number;
+};
+
+export type IndexerCheckpoint = {
+  // Newest signature covered by a completed run, the next run stops once it reaches it
+  newestSignature?: string;
+  // Set while a run is in progress: the oldest signature processed so far and the newest signature
+  // of the run, so an interrupted run resumes paging from where it stopped
+  cursor?: string;
+  runNewestSignature?: string;
+};
+
+// Event fields that identify the wallet / custodies involved, across the different event layouts
+const OWNER_FIELDS = ["owner", "ownerKey"];
+const CUSTODY_FIELDS = [
+  "positionCustody",
+  "positionCollateralCustody",
+  "custodyKey",
+  "receivingCustodyKey",
+  "dispensingCustodyKey",
+];
+
+function serialize(value: unknown): unknown {
+  if (value instanceof PublicKey) return value.toBase58();
+  if (BN.isBN(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(serialize);
+
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, serialize(field)]),
+    );
+  }
+
+  return value;
+}
+
+export function toEventRecord({
+  event,
+  signature,
+  slot,
+  blockTime,
+  outerIxIndex,
+  ixIndex,
+}: DecodedPerpetualsEvent): PerpetualsEventRecord {
+  const data = serialize(event.data) as Record<string, unknown>;
+
+  const owner = OWNER_FIELDS.map((field) => data[field]).find(
+    (value): value is string => typeof value === "string",
+  );
+  const custodies = CUSTODY_FIELDS.map((field) => data[field]).filter(
+    (value): value is string => typeof value === "string",
+  );
+
+  return {
+    id: `${signature}:${outerIxIndex}:${ixIndex}`,
+    name: event.name,
+    signature,
+    slot,
+    blockTime,
+    outerIxIndex,
+    ixIndex,
+    owner: owner ?? null,
+    custodies: [...new Set(custodies)],
+    data,
+  } as PerpetualsEventRecord;
+}
+
+export function matchesQuery(
+  record: PerpetualsEventRecord,
+  { wallet, custody, eventTypes, fromTime, toTime }: EventQuery,
+) {
+  if (wallet && record.owner !== wallet.toString()) return false;
+  if (custody && !record.custodies.includes(custody.toString())) return false;
+  if (eventTypes?.length && !eventTypes.includes(record.name)) return false;
+
+  if (fromTime !== undefined || toTime !== undefined) {
+    if (record.blockTime === null) return false;
+    if (fromTime !== undefined && record.blockTime < fromTime) return false;
+    if (toTime !== undefined && record.blockTime > toTime) return false;
+  }
+
+  return true;
+}
+
+export class JsonlEventStore {
+  readonly eventsPath: string;
+  readonly checkpointPath: string;
+  private ids: Set<string> | null = null;
+
+  constructor(readonly directory: string) {
+    this.eventsPath = path.join(directory, "events.jsonl");
+    this.checkpointPath = path.join(directory, "checkpoint.json");
+
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  readCheckpoint(): IndexerCheckpoint {
+    if (!fs.existsSync(this.checkpointPath)) return {};
+
+    return JSON.parse(fs.readFileSync(this.checkpointPath, "utf8"));
+  }
+
+  // Written to a temp file first so a crash can't leave a truncated checkpoint behind
+  writeCheckpoint(checkpoint: IndexerCheckpoint) {
+    const tmpPath = `${this.checkpointPath}.tmp`;
+
+    fs.writeFileSync(tmpPath, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(tmpPath, this.checkpointPath);
+  }
+
+  // Appends the records that aren't stored yet (a page is re-processed when a run is interrupted
+  // between appending and checkpointing) and returns how many were written
+  async append(records: PerpetualsEventRecord[]) {
+    const ids = await this.loadIds();
+    const newRecords = records.filter(({ id }) => !ids.has(id));
+
+    if (newRecords.length === 0) return 0;
+
+    fs.appendFileSync(
+      this.eventsPath,
+      newRecords.map((record) => JSON.stringify(record) + "\n").join(""),
+    );
+    newRecords.forEach(({ id }) => ids.add(id));
+
+    return newRecords.length;
+  }
+
+  async *records(): AsyncGenerator<PerpetualsEventRecord> {
+    if (!fs.existsSync(this.eventsPath)) return;
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.eventsPath),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+
+  async query(query: EventQuery = {}) {
+    const results: PerpetualsEventRecord[] = [];
+
+    for await (const record of this.records()) {
+      if (!matchesQuery(record, query)) continue;
+
+      results.push(record);
+
+      if (query.limit !== undefined && results.length >= query.limit) break;
+    }
+
+    return results;
+  }
+
+  private async loadIds() {
+    if (this.ids) return this.ids;
+
+    const ids = new Set<string>();
+    for await (const { id } of this.records()) ids.add(id);
+
+    this.ids = ids;
+
+    return ids;
+  }
+}
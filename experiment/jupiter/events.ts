@@ -0,0 +1,90 @@
+import {
+  DISCRIMINATOR_SIZE,
+  IdlEvents,
+  Program,
+  utils,
+} from "@coral-xyz/anchor";
+import { VersionedTransactionResponse } from "@solana/web3.js";
+import { type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+
+// The Jupiter Perpetuals program emits its events as Anchor CPI events
+// (https://book.anchor-lang.com/anchor_in_depth/events.html): a self-invoked inner instruction whose
+// data is the `EVENT_IX_TAG` followed by the event discriminator and the borsh encoded event.
+
+export type PerpetualsEventName = keyof IdlEvents<Perpetuals>;
+
+export type AnchorIdlEvent<EventName extends PerpetualsEventName> = {
+  name: EventName;
+  data: IdlEvents<Perpetuals>[EventName];
+};
+
+export type PerpetualsEvent = {
+  [EventName in PerpetualsEventName]: AnchorIdlEvent<EventName>;
+}[PerpetualsEventName];
+
+export type DecodedPerpetualsEvent = {
+  event: PerpetualsEvent;
+  // Index of the top level instruction whose CPIs emitted the event
+  outerIxIndex: number;
+  // Index of the inner instruction that emitted the event within its outer instruction
+  ixIndex: number;
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+};
+
+// `sha256("anchor:event")[..8]` in little endian, prepended to every CPI event instruction
+const EVENT_IX_TAG = Buffer.from([
+  0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d,
+]);
+
+export function decodeTransactionEvents(
+  program: Program<Perpetuals>,
+  tx: VersionedTransactionResponse,
+): DecodedPerpetualsEvent[] {
+  if (!tx.meta?.innerInstructions) return [];
+
+  const accountKeys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+
+  return tx.meta.innerInstructions.flatMap((ix) =>
+    ix.instructions.flatMap((iix, ixIndex) => {
+      // Only the program's self-invocations carry events, skip token transfers, swaps etc.
+      const programId = accountKeys.get(iix.programIdIndex);
+      if (!programId || !programId.equals(program.programId)) return [];
+
+      const ixData = Buffer.from(utils.bytes.bs58.decode(iix.data));
+      if (!ixData.subarray(0, DISCRIMINATOR_SIZE).equals(EVENT_IX_TAG)) {
+        return [];
+      }
+
+      // Anchor has an 8 byte discriminator at the start of the data buffer, which is why we need to remove it
+      // from the final buffer so that the event decoder does not fail.
+      const eventData = utils.bytes.base64.encode(
+        ixData.subarray(DISCRIMINATOR_SIZE),
+      );
+      const event = program.coder.events.decode(eventData);
+
+      if (!event) return [];
+
+      return [
+        {
+          event: event as PerpetualsEvent,
+          outerIxIndex: ix.index,
+          ixIndex,
+          signature: tx.transaction.signatures[0],
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? null,
+        },
+      ];
+    }),
+  );
+}
+
+export function isEventOfType<EventName extends PerpetualsEventName>(
+  event: PerpetualsEvent,
+  ...names: EventName[]
+): event is Extract<PerpetualsEvent, { name: EventName }> {
+  return (names as PerpetualsEventName[]).includes(event.name);
+}
@@ -3,26 +3,20 @@ import {
   Blockhash,
   ComputeBudgetProgram,
   PublicKey,
-  SystemProgram,
-  TransactionInstruction,
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
 import { CustodyAccount, Position } from "../types";
 import { Perpetuals } from "../../idl/jupiter-perpetuals-idl";
 import { generatePositionRequestPda } from "./generate-position-and-position-request-pda";
-import {
-  createAssociatedTokenAccountIdempotentInstruction,
-  createCloseAccountInstruction,
-  createSyncNativeInstruction,
-  getAssociatedTokenAddressSync,
-  NATIVE_MINT,
-} from "@solana/spl-token";
 import {
   JLP_POOL_ACCOUNT_PUBKEY,
   JUPITER_PERPETUALS_PROGRAM_ID,
   RPC_CONNECTION,
 } from "../constants";
+import { PerpetualsClient } from "../perpetuals-client";
+import { calculatePriceSlippage, DEFAULT_SLIPPAGE_BPS } from "../slippage";
+import { buildFundingPlan, fetchJupiterMinimumOut } from "../funding";
 
 export async function constructMarketOpenPositionRequest({
   custody,
@@ -31,12 +25,13 @@ export async function constructMarketOpenPositionRequest({
   inputMint,
   jupiterMinimumOut,
   owner,
-  priceSlippage,
   program,
   recentBlockhash,
   side,
   sizeUsdDelta,
   positionPubkey,
+  slippageBps = DEFAULT_SLIPPAGE_BPS,
+  tokenPrice,
 }: {
   custody: CustodyAccount;
   collateralCustody: CustodyAccount;
@@ -44,12 +39,14 @@ export async function constructMarketOpenPositionRequest({
   inputMint: PublicKey;
   jupiterMinimumOut: BN | null;
   owner: PublicKey;
-  priceSlippage: BN;
   program: Program<Perpetuals>;
   recentBlockhash: Blockhash;
   side: Position["side"];
   sizeUsdDelta: BN;
   positionPubkey: PublicKey;
+  slippageBps?: number;
+  // Oracle price in USDC decimals, fetched from the custody's Doves price feed when omitted
+  tokenPrice?: BN;
 }) {
   // The `positionRequest` PDA holds the requests for all the perpetuals actions. Once the `positionRequest`
   // is submitted on chain, the keeper(s) will pick them up and execute the requests (hence the request
@@ -59,61 +56,53 @@ export async function constructMarketOpenPositionRequest({
     requestChange: "increase",
   });
 
-  // The `positionRequestAta` accounts hold the user's input mint tokens, which will be swapped (if required)
-  // and used to fund the collateral custody's token account when the instruction is executed
-  const positionRequestAta = getAssociatedTokenAddressSync(
+  // `fundingAccount` is the token account where we'll withdraw the `inputMint` from and the `positionRequestAta`
+  // holds the user's input mint tokens until the keeper swaps them (if required) into the collateral custody:
+  // `fundingAccount` -> `positionRequestAta` -> `collateralCustodyTokenAccount`
+  // SOL is wrapped / unwrapped around the request, SPL tokens are pulled from the owner's ATA directly
+  const {
+    fundingAccount,
+    positionRequestAta,
+    preInstructions,
+    postInstructions,
+    requiresSwap,
+  } = buildFundingPlan({
+    owner,
     inputMint,
+    collateralMint: collateralCustody.account.mint,
     positionRequest,
-    true,
-  );
-
-  // `fundingAccount` is the token account where we'll withdraw the `inputMint` from. Essentially, the flow of tokens will be:
-  // `fundingAccount` -> `positionRequestAta` -> `collateralCustodyTokenAccount`
-  const fundingAccount = getAssociatedTokenAddressSync(inputMint, owner);
-
-  const preInstructions: TransactionInstruction[] = [];
-  const postInstructions: TransactionInstruction[] = [];
-
-  // Wrap to wSOL if needed so we can treat SOL as an SPL token
-  // https://spl.solana.com/token#example-wrapping-sol-in-a-token
-  if (inputMint.equals(NATIVE_MINT)) {
-    const createWrappedSolAtaIx =
-      createAssociatedTokenAccountIdempotentInstruction(
-        owner,
-        fundingAccount,
-        owner,
-        NATIVE_MINT,
-      );
-
-    preInstructions.push(createWrappedSolAtaIx);
-
-    // Transfer SOL to the wSOL associated token account and use SyncNative below to update wrapped SOL balance
-    preInstructions.push(
-      SystemProgram.transfer({
-        fromPubkey: owner,
-        toPubkey: fundingAccount,
-        lamports: BigInt(collateralTokenDelta.toString()),
-      }),
-    );
-
-    preInstructions.push(createSyncNativeInstruction(fundingAccount));
+    collateralTokenDelta,
+  });
 
-    postInstructions.push(
-      createCloseAccountInstruction(fundingAccount, owner, owner),
-    );
-  }
+  // jupiterMinimumOut is required for trades that require swaps, i.e. when `inputMint` is not the
+  // collateral custody's mint. The Jupiter Quote API (https://station.jup.ag/api-v6/get-quote) converts
+  // the `inputMintAmount` to the minimum token out amount when it isn't passed in
+  const minimumOut = requiresSwap
+    ? jupiterMinimumOut && jupiterMinimumOut.gten(0)
+      ? jupiterMinimumOut
+      : await fetchJupiterMinimumOut({
+          inputMint,
+          outputMint: collateralCustody.account.mint,
+          amount: collateralTokenDelta,
+          slippageBps,
+        })
+    : null;
+
+  // `priceSlippage` is the worst price the keeper may fill the request at, derived from the oracle price
+  const priceSlippage = calculatePriceSlippage({
+    tokenPrice:
+      tokenPrice ??
+      (await new PerpetualsClient(program).getTokenPrice(custody.publicKey)),
+    side: side.long ? "long" : "short",
+    requestChange: "increase",
+    slippageBps,
+  });
 
   const increaseIx = await program.methods
     .createIncreasePositionMarketRequest({
       counter,
       collateralTokenDelta,
-      // jupiterMinimumOut is required for trades that require swaps
-      // Call the Jupiter Quote API (https://station.jup.ag/api-v6/get-quote) to convert the `inputMintAmount`
-      // to get the `jupiterMinimumOut` which is the required minimum token out amount when the swap is performed
-      jupiterMinimumOut:
-        jupiterMinimumOut && jupiterMinimumOut.gten(0)
-          ? jupiterMinimumOut
-          : null,
+      jupiterMinimumOut: minimumOut,
       priceSlippage,
       side,
       sizeUsdDelta,
@@ -1,29 +1,27 @@
 import { BN, IdlAccounts } from "@coral-xyz/anchor";
-import { JUPITER_PERPETUALS_PROGRAM, USDC_DECIMALS } from "../constants";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import {
+  CUSTODY_PUBKEYS,
+  JUPITER_PERPETUALS_PROGRAM,
+  USDC_DECIMALS,
+} from "../constants";
+import { Perpetuals } from "../../idl/jupiter-perpetuals-idl";
 import { BNToUSDRepresentation } from "../utils";
-
-function getPnlForSize(
-  sizeUsdDelta: BN,
-  positionAvgPrice: BN,
-  positionSide: "long" | "short",
-  tokenPrice: BN,
+import { calculatePositionPnlAfterFees } from "../math";
+import {
+  createDovesProgram,
+  CustodyToOraclePrice,
+  fetchOraclePrices,
+  toUsdcPrecision,
+} from "../oracle";
+import { PerpetualsClient } from "../perpetuals-client";
+
+const client = new PerpetualsClient(JUPITER_PERPETUALS_PROGRAM);
+
+// Both functions below price positions with the `OraclePriceFeed` cache when it is passed in,
+// otherwise all the Doves prices are fetched once up front
+export async function getGlobalLongUnrealizedPnl(
+  oraclePrices?: CustodyToOraclePrice,
 ) {
-  if (sizeUsdDelta.eqn(0)) return [false, new BN(0)];
-
-  const hasProfit =
-    positionSide === "long"
-      ? tokenPrice.gt(positionAvgPrice)
-      : positionAvgPrice.gt(tokenPrice);
-
-  const tokenPriceDelta = tokenPrice.sub(positionAvgPrice).abs();
-
-  const pnl = sizeUsdDelta.mul(tokenPriceDelta).div(positionAvgPrice);
-
-  return [hasProfit, pnl];
-}
-
-export async function getGlobalLongUnrealizedPnl() {
   const gpaResult =
     await JUPITER_PERPETUALS_PROGRAM.provider.connection.getProgramAccounts(
       JUPITER_PERPETUALS_PROGRAM.programId,
@@ -54,37 +52,72 @@ export async function getGlobalLongUnrealizedPnl() {
     (position) => position.account.sizeUsd.gtn(0) && position.account.side.long,
   );
 
-  // NOTE: We assume the token price is $100 (scaled to 6 decimal places as per the USDC mint) as an example here for simplicity
-  const tokenPrice = new BN(100_000_000);
+  const prices =
+    oraclePrices ??
+    (await fetchOraclePrices(
+      createDovesProgram(JUPITER_PERPETUALS_PROGRAM.provider.connection),
+    ));
+  await client.getCustodies(CUSTODY_PUBKEYS, { refresh: true });
+  const curtime = new BN(Math.floor(Date.now() / 1000));
 
   let totalPnl = new BN(0);
-
-  openPositions.forEach((position) => {
-    const [hasProfit, pnl] = getPnlForSize(
-      position.account.sizeUsd,
-      position.account.price,
-      position.account.side.long ? "long" : "short",
+  let totalPnlAfterFees = new BN(0);
+
+  for (const position of openPositions) {
+    const oraclePrice = prices[position.account.custody.toString()];
+    if (!oraclePrice) continue;
+
+    const [custody, collateralCustody] = await client.getCustodies([
+      position.account.custody,
+      position.account.collateralCustody,
+    ]);
+    const tokenPrice = toUsdcPrecision(oraclePrice);
+
+    const { pnl, pnlAfterFees } = calculatePositionPnlAfterFees(
+      position.account,
+      custody,
+      collateralCustody,
       tokenPrice,
+      curtime,
     );
 
-    totalPnl = hasProfit ? totalPnl.add(pnl) : totalPnl.sub(pnl);
-  });
+    totalPnl = totalPnl.add(pnl);
+    totalPnlAfterFees = totalPnlAfterFees.add(pnlAfterFees);
+  }
 
   console.log(
     "Global long unrealized PNL ($)",
     BNToUSDRepresentation(totalPnl, USDC_DECIMALS),
   );
+  console.log(
+    "Global long unrealized PNL after fees ($)",
+    BNToUSDRepresentation(totalPnlAfterFees, USDC_DECIMALS),
+  );
+
+  return { totalPnl, totalPnlAfterFees };
 }
 
-export async function getGlobalLongUnrealizedPnlEstimate() {
+export async function getGlobalLongUnrealizedPnlEstimate(
+  oraclePrices?: CustodyToOraclePrice,
+) {
   const custodies = await JUPITER_PERPETUALS_PROGRAM.account.custody.all();
+  const prices =
+    oraclePrices ??
+    (await fetchOraclePrices(
+      createDovesProgram(JUPITER_PERPETUALS_PROGRAM.provider.connection),
+    ));
 
   let totalPnl = new BN(0);
 
   custodies.forEach((custody) => {
-    // NOTE: We assume the token price is $100 (scaled to 6 decimal places as per the USDC mint) as an example here for simplicity
-    const tokenPrice = new BN(100_000_000);
-    const lockedUsd = custody.account.assets.locked.mul(tokenPrice);
+    const oraclePrice = prices[custody.publicKey.toString()];
+    if (!oraclePrice) return;
+
+    // `assets.locked` is in the custody token's decimals, so scale it back down after pricing it in USD
+    const tokenPrice = toUsdcPrecision(oraclePrice);
+    const lockedUsd = custody.account.assets.locked
+      .mul(tokenPrice)
+      .div(new BN(10).pow(new BN(custody.account.decimals)));
     totalPnl = totalPnl.add(
       lockedUsd.sub(custody.account.assets.guaranteedUsd),
     );
@@ -94,4 +127,6 @@ export async function getGlobalLongUnrealizedPnlEstimate() {
     "Global long unrealized PNL estimate ($)",
     BNToUSDRepresentation(totalPnl, USDC_DECIMALS),
   );
+
+  return totalPnl;
 }
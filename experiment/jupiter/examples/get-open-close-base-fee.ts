@@ -1,24 +1,22 @@
 import { BN } from "@coral-xyz/anchor";
-import {
-  BPS_POWER,
-  JUPITER_PERPETUALS_PROGRAM,
-  USDC_DECIMALS,
-} from "../constants";
-import { BNToUSDRepresentation } from "../utils";
+import { JUPITER_PERPETUALS_PROGRAM } from "../constants";
+import { PerpetualsClient } from "../perpetuals-client";
 import { PublicKey } from "@solana/web3.js";
 
+const client = new PerpetualsClient(JUPITER_PERPETUALS_PROGRAM);
+
 export async function getOpenCloseBaseFee(
   tradeSizeUsd: BN,
   custodyPubkey: PublicKey | string,
 ) {
-  const custody =
-    await JUPITER_PERPETUALS_PROGRAM.account.custody.fetch(custodyPubkey);
-
-  const baseFeeBps = custody.increasePositionBps;
-  // Use `decreasePositionBps` for close position or withdraw collateral trades
-  // const baseFeeBps = custody.decreasePositionBps;
+  // Pass "close" for close position or withdraw collateral trades (uses `decreasePositionBps`)
+  const feeUsd = await client.getOpenCloseBaseFee(
+    tradeSizeUsd,
+    custodyPubkey,
+    "open",
+  );
 
-  const feeUsd = tradeSizeUsd.mul(baseFeeBps).div(BPS_POWER);
+  console.log("Base fee ($): ", feeUsd.formatted);
 
-  console.log("Base fee ($): ", BNToUSDRepresentation(feeUsd, USDC_DECIMALS));
+  return feeUsd;
 }
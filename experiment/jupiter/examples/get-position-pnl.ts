@@ -1,26 +1,27 @@
-import { BN } from "@coral-xyz/anchor";
-import { JUPITER_PERPETUALS_PROGRAM, USDC_DECIMALS } from "../constants";
+import { JUPITER_PERPETUALS_PROGRAM } from "../constants";
 import { PublicKey } from "@solana/web3.js";
-import { BNToUSDRepresentation } from "../utils";
+import { PerpetualsClient } from "../perpetuals-client";
+import { CustodyToOraclePrice } from "../oracle";
 
-// Note that the calculation below gets the position's PNL before fees
-export async function getPositionPnl(positionPubkey: PublicKey) {
-  const position =
-    await JUPITER_PERPETUALS_PROGRAM.account.position.fetch(positionPubkey);
+const client = new PerpetualsClient(JUPITER_PERPETUALS_PROGRAM);
 
-  // NOTE: We assume the token price is $100 (scaled to 6 decimal places as per the USDC mint) as an example here for simplicity
-  const tokenPrice = new BN(100_000_000);
+// The calculation below uses the current Doves price for the position's custody and gets the
+// position's PNL both before and after the fees a full close would pay. Pass the cache
+// kept by an `OraclePriceFeed` to avoid a `priceFeed` fetch on every call.
+export async function getPositionPnl(
+  positionPubkey: PublicKey,
+  oraclePrices?: CustodyToOraclePrice,
+) {
+  if (oraclePrices) client.setOraclePriceCache(oraclePrices);
 
-  const hasProfit = position.side.long
-    ? tokenPrice.gt(position.price)
-    : position.price.gt(tokenPrice);
-
-  const tokenPriceDelta = tokenPrice.sub(position.price).abs();
-
-  const pnl = position.sizeUsd.mul(tokenPriceDelta).div(position.price);
+  const positionPnl = await client.getPositionPnl(positionPubkey);
 
+  console.log("Position PNL ($): ", positionPnl.pnl.formatted);
+  console.log("Position fees ($): ", positionPnl.totalFees.formatted);
   console.log(
-    "Position PNL ($): ",
-    BNToUSDRepresentation(hasProfit ? pnl : pnl.neg(), USDC_DECIMALS),
+    "Position PNL after fees ($): ",
+    positionPnl.pnlAfterFees.formatted,
   );
+
+  return positionPnl;
 }
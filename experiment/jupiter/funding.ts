@@ -0,0 +1,150 @@
+import BN from "bn.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+// Increase requests pull `collateralTokenDelta` of `inputMint` from the owner's `fundingAccount` into
+// the `positionRequestAta` (owned by the `positionRequest` PDA). When the keeper executes the request
+// the tokens are swapped into the collateral custody's mint (if needed) and moved into the custody:
+//
+// `fundingAccount` -> `positionRequestAta` -> (Jupiter swap) -> `collateralCustodyTokenAccount`
+//
+// How the `fundingAccount` gets funded depends on the input mint:
+// - native SOL is wrapped into the owner's wSOL ATA first and the ATA is closed (unwrapped) afterwards
+// - SPL tokens (USDC, USDT, ...) are transferred straight from the owner's existing ATA
+// - when the input mint differs from the collateral mint the keeper swaps it, which requires a
+//   `jupiterMinimumOut` so the swap can't be filled at an arbitrary rate
+
+export const JUPITER_QUOTE_API_URL = "https://quote-api.jup.ag/v6/quote";
+
+export type FundingPlan = {
+  fundingAccount: PublicKey;
+  positionRequestAta: PublicKey;
+  preInstructions: TransactionInstruction[];
+  postInstructions: TransactionInstruction[];
+  requiresSwap: boolean;
+};
+
+export function buildFundingPlan({
+  owner,
+  inputMint,
+  collateralMint,
+  positionRequest,
+  collateralTokenDelta,
+}: {
+  owner: PublicKey;
+  inputMint: PublicKey;
+  collateralMint: PublicKey;
+  positionRequest: PublicKey;
+  // Amount of `inputMint` in base units (lamports for SOL)
+  collateralTokenDelta: BN;
+}): FundingPlan {
+  const fundingAccount = getAssociatedTokenAddressSync(inputMint, owner);
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    inputMint,
+    positionRequest,
+    true,
+  );
+
+  const preInstructions: TransactionInstruction[] = [];
+  const postInstructions: TransactionInstruction[] = [];
+
+  // Wrap to wSOL so we can treat SOL as an SPL token
+  // https://spl.solana.com/token#example-wrapping-sol-in-a-token
+  if (inputMint.equals(NATIVE_MINT)) {
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        fundingAccount,
+        owner,
+        NATIVE_MINT,
+      ),
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: fundingAccount,
+        lamports: BigInt(collateralTokenDelta.toString()),
+      }),
+      createSyncNativeInstruction(fundingAccount),
+    );
+
+    // Unwrap whatever is left once the request has pulled its tokens
+    postInstructions.push(
+      createCloseAccountInstruction(fundingAccount, owner, owner),
+    );
+  }
+
+  return {
+    fundingAccount,
+    positionRequestAta,
+    preInstructions,
+    postInstructions,
+    requiresSwap: !inputMint.equals(collateralMint),
+  };
+}
+
+// Minimum amount of `outputMint` (base units) the keeper's swap must return, using the Jupiter quote's
+// `otherAmountThreshold` which already accounts for `slippageBps`
+// https://station.jup.ag/api-v6/get-quote
+export async function fetchJupiterMinimumOut({
+  inputMint,
+  outputMint,
+  amount,
+  slippageBps,
+}: {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: BN;
+  slippageBps: number;
+}) {
+  const params = new URLSearchParams({
+    inputMint: inputMint.toBase58(),
+    outputMint: outputMint.toBase58(),
+    amount: amount.toString(),
+    slippageBps: slippageBps.toString(),
+  });
+
+  const response = await fetch(`${JUPITER_QUOTE_API_URL}?${params}`);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to get Jupiter quote: ${response.status} ${await response.text()}`,
+    );
+  }
+
+  const quote = (await response.json()) as { otherAmountThreshold?: string };
+
+  if (!quote.otherAmountThreshold) {
+    throw new Error("Jupiter quote is missing `otherAmountThreshold`");
+  }
+
+  return new BN(quote.otherAmountThreshold);
+}
+
+// Builds the funding plan and, for inputs that need a swap, the `jupiterMinimumOut` to go with it.
+// `jupiterMinimumOut` is `null` whenever no swap is involved, as the program expects.
+export async function prepareIncreaseFunding({
+  slippageBps,
+  ...params
+}: Parameters<typeof buildFundingPlan>[0] & { slippageBps: number }) {
+  const plan = buildFundingPlan(params);
+
+  const jupiterMinimumOut = plan.requiresSwap
+    ? await fetchJupiterMinimumOut({
+        inputMint: params.inputMint,
+        outputMint: params.collateralMint,
+        amount: params.collateralTokenDelta,
+        slippageBps,
+      })
+    : null;
+
+  return { ...plan, jupiterMinimumOut };
+}
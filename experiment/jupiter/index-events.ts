@@ -0,0 +1,92 @@
+/**
+ *  Jupiter Perpetuals – historical event indexer.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/index-events.ts sync [--max-pages <n>] [--since <iso date>] [--dir <path>]
+ *  tsx jupiter/index-events.ts query [--wallet <pubkey>] [--custody <pubkey>] [--type <EventName,...>]
+ *                                    [--from <iso date>] [--to <iso date>] [--limit <n>] [--dir <path>]
+ *
+ *  `sync` resumes from `<dir>/checkpoint.json`, `query` prints the matching records as JSON lines.
+ */
+
+import path from "path";
+import { parseArgs } from "node:util";
+import { createConnection } from "../config";
+import { PerpetualsEventIndexer } from "./event-indexer";
+import { JsonlEventStore } from "./event-store";
+import { PerpetualsEventName } from "./events";
+import { PerpetualsClient } from "./perpetuals-client";
+import { __dirname, config, toUnixTime } from "./utils";
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    dir: { type: "string", default: path.join(__dirname, "..", "data", "events") },
+    rpc: { type: "string", default: config.rpcUrl },
+    cluster: { type: "string" },
+    "max-pages": { type: "string" },
+    since: { type: "string" },
+    wallet: { type: "string" },
+    custody: { type: "string" },
+    type: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    limit: { type: "string" },
+  },
+});
+
+const store = new JsonlEventStore(values.dir!);
+
+async function sync() {
+  const { program } = PerpetualsClient.fromConnection(
+    createConnection({ ...config, rpcUrl: values.rpc! }),
+  );
+  const indexer = new PerpetualsEventIndexer(program, store);
+
+  const result = await indexer.sync({
+    maxPages: values["max-pages"] ? Number(values["max-pages"]) : undefined,
+    since: toUnixTime(values.since),
+    onPage: ({ signatures, events, oldestBlockTime }) =>
+      console.log(
+        `📄  ${signatures} signatures, ${events} events, back to ${
+          oldestBlockTime ? new Date(oldestBlockTime * 1000).toISOString() : "?"
+        }`,
+      ),
+  });
+
+  console.log(
+    `${result.complete ? "✅  caught up" : "⏸️  paused, run again to resume"}: ${result.pages} pages, ${result.signatures} signatures, ${result.events} new events`,
+  );
+}
+
+async function query() {
+  const records = await store.query({
+    wallet: values.wallet,
+    custody: values.custody,
+    eventTypes: values.type?.split(",") as PerpetualsEventName[] | undefined,
+    fromTime: toUnixTime(values.from),
+    toTime: toUnixTime(values.to),
+    limit: values.limit ? Number(values.limit) : undefined,
+  });
+
+  records.forEach((record) => console.log(JSON.stringify(record)));
+}
+
+(async () => {
+  const [command] = positionals;
+
+  try {
+    if (command === "sync") {
+      await sync();
+    } else if (command === "query") {
+      await query();
+    } else {
+      console.error(`Unknown command: ${command ?? "(none)"}. Expected sync or query`);
+      process.exit(1);
+    }
+  } catch (err) {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+})();
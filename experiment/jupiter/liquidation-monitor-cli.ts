@@ -0,0 +1,113 @@
+/**
+ *  Jupiter Perpetuals – liquidation risk monitor.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/liquidation-monitor-cli.ts [--threshold <name>=<pct> ...] [--webhook <url>]
+ *                                         [--interval <seconds>] [--top <n>] [--once]
+ *
+ *  e.g. `--threshold critical=1 --threshold warning=5` alerts when a position is within 1% / 5% of
+ *  its liquidation price. Needs an RPC that serves `getProgramAccounts` for the position scan.
+ *  While watching, prices come from the streamed Doves feeds (`OraclePriceFeed`); `--once` fetches
+ *  them for its single evaluation.
+ */
+
+import { parseArgs } from "node:util";
+import { parsePositiveInteger, parsePositiveNumber } from "../cli-options";
+import { createConnection } from "../config";
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  LiquidationRiskMonitor,
+  PositionRisk,
+  RiskAlert,
+  RiskThreshold,
+} from "./liquidation-monitor";
+import { OraclePriceFeed } from "./oracle";
+import { PerpetualsClient } from "./perpetuals-client";
+import { config } from "./utils";
+
+const { values } = parseArgs({
+  options: {
+    threshold: { type: "string", multiple: true },
+    webhook: { type: "string" },
+    interval: { type: "string", default: "10" },
+    top: { type: "string", default: "10" },
+    once: { type: "boolean", default: false },
+    rpc: { type: "string", default: config.rpcUrl },
+    cluster: { type: "string" },
+  },
+});
+
+function parseThreshold(value: string): RiskThreshold {
+  const [name, pct] = value.split("=");
+  const maxDistancePct = Number(pct);
+
+  if (!name || Number.isNaN(maxDistancePct)) {
+    throw new Error(`Invalid --threshold: ${value}, expected <name>=<pct>`);
+  }
+
+  return { name, maxDistancePct };
+}
+
+function printRanking(ranked: PositionRisk[], top: number) {
+  console.log(
+    `\n${new Date().toISOString()}  ${ranked.length} open positions, riskiest:`,
+  );
+  ranked.slice(0, top).forEach((risk) => {
+    console.log(
+      `  ${risk.distancePct.toFixed(2).padStart(7)}%  ${risk.market} ${risk.side.padEnd(5)}  size $${risk.sizeUsd.formatted}  price $${risk.tokenPrice.formatted}  liq $${risk.liquidationPrice.formatted}  ${risk.publicKey}`,
+    );
+  });
+}
+
+(async () => {
+  const thresholds = values.threshold
+    ? values.threshold.map(parseThreshold)
+    : DEFAULT_RISK_THRESHOLDS;
+  const interval = parsePositiveNumber(values.interval, "--interval");
+  const top = parsePositiveInteger(values.top, "--top");
+
+  const connection = createConnection({ ...config, rpcUrl: values.rpc });
+  const monitorOptions = {
+    thresholds,
+    intervalMs: interval * 1000,
+    webhookUrl: values.webhook,
+    onUpdate: (ranked: PositionRisk[]) => printRanking(ranked, top),
+    onAlert: ({ threshold, risk }: RiskAlert) =>
+      console.log(
+        `🚨  [${threshold.name}] ${risk.market} ${risk.side} ${risk.publicKey} (${risk.owner}) is ${risk.distancePct.toFixed(2)}% from liquidation`,
+      ),
+  };
+
+  if (values.once) {
+    await new LiquidationRiskMonitor(
+      PerpetualsClient.fromConnection(connection),
+      monitorOptions,
+    ).evaluate();
+    process.exit(0);
+  }
+
+  const feed = new OraclePriceFeed(connection);
+
+  feed.on("stale", ({ name, ageSec }) =>
+    console.warn(`⚠️  ${name} price is stale (${ageSec}s old)`),
+  );
+  feed.on("error", (err) => console.error("Oracle price feed error:", err));
+  await feed.start();
+
+  const monitor = new LiquidationRiskMonitor(
+    PerpetualsClient.fromConnection(connection),
+    { ...monitorOptions, oraclePrices: feed.cache },
+  );
+
+  monitor.start();
+
+  process.on("SIGINT", () => {
+    monitor.stop();
+    feed.stop();
+    process.exit(0);
+  });
+})().catch((err) => {
+  console.error("❌", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,319 @@
+import { Program } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { BPS_POWER, custodySymbol } from "./constants";
+import { calculateLiquidationPrice, toUsdValue } from "./math";
+import {
+  createEmptyOraclePriceCache,
+  CustodyToOraclePrice,
+  fetchAndUpdateOraclePriceData,
+  toUsdcPrecision,
+} from "./oracle";
+import { PerpetualsClient } from "./perpetuals-client";
+import { PositionSide } from "./slippage";
+import { Custody, Position, PositionAccount, UsdValue } from "./types";
+
+// Ranks every open position in the program by how far the oracle price has to move before the
+// position can be liquidated, and fires alerts when a position gets closer than a threshold.
+//
+// Positions come from a `getProgramAccounts` over `position` accounts (see `getOpenPositions`),
+// refreshed every `positionsRefreshMs`; prices come from the Doves feeds, either a cache kept up to
+// date by the caller (e.g. `OraclePriceFeed.cache`) or a `fetchMultiple` on every evaluation.
+
+export type PositionRisk = {
+  publicKey: string;
+  owner: string;
+  side: PositionSide;
+  custody: string;
+  market: string;
+  sizeUsd: UsdValue;
+  collateralUsd: UsdValue;
+  tokenPrice: UsdValue;
+  liquidationPrice: UsdValue;
+  // Price move (in % of the current price) left before the position is liquidatable, <= 0 once it is
+  distancePct: number;
+};
+
+export type RiskThreshold = {
+  name: string;
+  maxDistancePct: number;
+};
+
+export type RiskAlert = {
+  threshold: RiskThreshold;
+  risk: PositionRisk;
+};
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThreshold[] = [
+  { name: "critical", maxDistancePct: 1 },
+  { name: "warning", maxDistancePct: 5 },
+];
+
+export function calculatePositionRisk(
+  { publicKey, account: position }: PositionAccount,
+  custody: Custody,
+  collateralCustody: Custody,
+  tokenPrice: BN,
+): PositionRisk {
+  const liquidationPrice = calculateLiquidationPrice(
+    position,
+    custody,
+    collateralCustody,
+  );
+
+  // Longs are liquidated when the price drops to the liquidation price, shorts when it rises to it
+  const distance = position.side.long
+    ? tokenPrice.sub(liquidationPrice)
+    : liquidationPrice.sub(tokenPrice);
+  const distanceBps = tokenPrice.eqn(0)
+    ? 0
+    : distance.mul(BPS_POWER).div(tokenPrice).toNumber();
+
+  return {
+    publicKey: publicKey.toBase58(),
+    owner: position.owner.toBase58(),
+    side: position.side.long ? "long" : "short",
+    custody: position.custody.toBase58(),
+    market: custodySymbol(position.custody),
+    sizeUsd: toUsdValue(position.sizeUsd),
+    collateralUsd: toUsdValue(position.collateralUsd),
+    tokenPrice: toUsdValue(tokenPrice),
+    liquidationPrice: toUsdValue(liquidationPrice),
+    distancePct: distanceBps / (BPS_POWER.toNumber() / 100),
+  };
+}
+
+// Riskiest first. `custodies` and `tokenPrices` (USDC decimals) are keyed by the custody pubkey string
+export function rankPositionsByRisk(
+  positions: PositionAccount[],
+  custodies: Map<string, Custody>,
+  tokenPrices: Map<string, BN>,
+) {
+  return positions
+    .flatMap((position) => {
+      const custody = custodies.get(position.account.custody.toBase58());
+      const collateralCustody = custodies.get(
+        position.account.collateralCustody.toBase58(),
+      );
+      const tokenPrice = tokenPrices.get(position.account.custody.toBase58());
+
+      if (!custody || !collateralCustody || !tokenPrice) return [];
+
+      return [
+        calculatePositionRisk(position, custody, collateralCustody, tokenPrice),
+      ];
+    })
+    .sort((a, b) => a.distancePct - b.distancePct);
+}
+
+// All `Position` accounts with `sizeUsd > 0`. Needs an RPC that serves `getProgramAccounts`
+export async function fetchOpenPositions(
+  program: Program<Perpetuals>,
+): Promise<PositionAccount[]> {
+  const gpaResult = await program.provider.connection.getProgramAccounts(
+    program.programId,
+    {
+      commitment: "confirmed",
+      filters: [{ memcmp: program.coder.accounts.memcmp("position") }],
+    },
+  );
+
+  return gpaResult
+    .map((item) => ({
+      publicKey: item.pubkey,
+      account: program.coder.accounts.decode(
+        "position",
+        item.account.data,
+      ) as Position,
+    }))
+    .filter(({ account }) => account.sizeUsd.gtn(0));
+}
+
+// Posts the alert as JSON, used as the default alert handler when a `webhookUrl` is configured
+export async function postRiskAlert(webhookUrl: string, alert: RiskAlert) {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      threshold: alert.threshold.name,
+      maxDistancePct: alert.threshold.maxDistancePct,
+      ...alert.risk,
+      sizeUsd: alert.risk.sizeUsd.formatted,
+      collateralUsd: alert.risk.collateralUsd.formatted,
+      tokenPrice: alert.risk.tokenPrice.formatted,
+      liquidationPrice: alert.risk.liquidationPrice.formatted,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Webhook responded with ${response.status}: ${await response.text()}`,
+    );
+  }
+}
+
+// Alerts are edge triggered: a position alerts once when it enters a (more severe) threshold and
+// again only after it has recovered past it, instead of on every evaluation.
+export class LiquidationRiskMonitor {
+  private readonly thresholds: RiskThreshold[];
+  private readonly levels = new Map<string, string>();
+  private positions: PositionAccount[] = [];
+  private positionsFetchedAt = 0;
+  private ownPrices: CustodyToOraclePrice | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(
+    private readonly client: PerpetualsClient,
+    private readonly options: {
+      thresholds?: RiskThreshold[];
+      intervalMs?: number;
+      positionsRefreshMs?: number;
+      // Streamed Doves prices, fetched on every evaluation when omitted
+      oraclePrices?: CustodyToOraclePrice;
+      webhookUrl?: string;
+      onAlert?: (alert: RiskAlert) => void | Promise<void>;
+      onUpdate?: (ranked: PositionRisk[]) => void;
+      onError?: (err: unknown) => void;
+    } = {},
+  ) {
+    // Most severe (smallest distance) first, so a position is matched against the tightest threshold
+    this.thresholds = [
+      ...(options.thresholds ?? DEFAULT_RISK_THRESHOLDS),
+    ].sort((a, b) => a.maxDistancePct - b.maxDistancePct);
+  }
+
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    this.tick();
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  // Single pass: refresh positions if stale, price them, rank them and fire alerts
+  async evaluate() {
+    const { positionsRefreshMs = 5 * 60_000 } = this.options;
+
+    if (Date.now() - this.positionsFetchedAt > positionsRefreshMs) {
+      this.positions = await fetchOpenPositions(this.client.program);
+      this.positionsFetchedAt = Date.now();
+    }
+
+    const custodyKeys = [
+      ...new Set(
+        this.positions.flatMap(({ account }) => [
+          account.custody.toBase58(),
+          account.collateralCustody.toBase58(),
+        ]),
+      ),
+    ];
+    // Refresh the custodies too, the borrow fee part of the liquidation price depends on them
+    const custodyAccounts = await this.client.getCustodies(custodyKeys, {
+      refresh: true,
+    });
+    const custodies = new Map(
+      custodyKeys.map((key, index) => [key, custodyAccounts[index]]),
+    );
+
+    const oraclePrices = await this.getOraclePrices();
+    const tokenPrices = new Map(
+      Object.entries(oraclePrices)
+        .filter(([, price]) => price.timestamp > 0)
+        .map(([custody, price]) => [custody, toUsdcPrecision(price)]),
+    );
+
+    const ranked = rankPositionsByRisk(this.positions, custodies, tokenPrices);
+
+    this.options.onUpdate?.(ranked);
+    await this.dispatchAlerts(ranked);
+
+    return ranked;
+  }
+
+  private async tick() {
+    if (!this.running) return;
+
+    try {
+      await this.evaluate();
+    } catch (err) {
+      this.handleError(err);
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(
+        () => this.tick(),
+        this.options.intervalMs ?? 10_000,
+      );
+    }
+  }
+
+  private async getOraclePrices() {
+    if (this.options.oraclePrices) return this.options.oraclePrices;
+
+    if (!this.ownPrices) this.ownPrices = createEmptyOraclePriceCache();
+
+    return fetchAndUpdateOraclePriceData(
+      this.client.getDovesProgram(),
+      this.ownPrices,
+    );
+  }
+
+  private async dispatchAlerts(ranked: PositionRisk[]) {
+    const seen = new Set<string>();
+
+    for (const risk of ranked) {
+      seen.add(risk.publicKey);
+
+      const threshold = this.thresholds.find(
+        ({ maxDistancePct }) => risk.distancePct <= maxDistancePct,
+      );
+      const previous = this.levels.get(risk.publicKey);
+
+      if (!threshold) {
+        this.levels.delete(risk.publicKey);
+        continue;
+      }
+
+      const previousIndex = this.thresholds.findIndex(
+        ({ name }) => name === previous,
+      );
+      const index = this.thresholds.indexOf(threshold);
+
+      this.levels.set(risk.publicKey, threshold.name);
+
+      // Only alert when entering a threshold or escalating to a more severe one
+      if (previousIndex !== -1 && index >= previousIndex) continue;
+
+      await this.alert({ threshold, risk });
+    }
+
+    // Positions that were closed / liquidated since the last evaluation
+    [...this.levels.keys()]
+      .filter((key) => !seen.has(key))
+      .forEach((key) => this.levels.delete(key));
+  }
+
+  private async alert(alert: RiskAlert) {
+    try {
+      if (this.options.onAlert) await this.options.onAlert(alert);
+      if (this.options.webhookUrl) {
+        await postRiskAlert(this.options.webhookUrl, alert);
+      }
+    } catch (err) {
+      this.handleError(err);
+    }
+  }
+
+  private handleError(err: unknown) {
+    if (this.options.onError) {
+      this.options.onError(err);
+    } else {
+      console.error("Liquidation risk monitor error", err);
+    }
+  }
+}
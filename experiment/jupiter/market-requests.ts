@@ -0,0 +1,212 @@
+import BN from "bn.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import { PublicKey } from "@solana/web3.js";
+import { JUPITER_PERPETUALS_PUBKEY } from "./constants";
+import {
+  generatePositionPda,
+  generatePositionRequestPda,
+} from "./examples/generate-position-and-position-request-pda";
+import { prepareIncreaseFunding } from "./funding";
+import { PerpetualsClient } from "./perpetuals-client";
+import {
+  calculatePriceSlippage,
+  DEFAULT_SLIPPAGE_BPS,
+  PositionSide,
+} from "./slippage";
+
+// Builders for the market increase / decrease requests, returning the instructions (including the
+// funding / receiving account setup) and the PDAs involved so the caller can sign, send and track
+// the request with `PositionRequestTracker`. Compute budget instructions are left to the caller.
+
+export async function buildOpenPositionRequest(
+  client: PerpetualsClient,
+  {
+    owner,
+    custody,
+    collateralCustody,
+    side,
+    sizeUsdDelta,
+    collateralTokenDelta,
+    inputMint = NATIVE_MINT,
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+    tokenPrice,
+    counter,
+  }: {
+    owner: PublicKey;
+    custody: PublicKey;
+    collateralCustody: PublicKey;
+    side: PositionSide;
+    // USD size in USDC decimals
+    sizeUsdDelta: BN;
+    // Amount of `inputMint` in base units (lamports for SOL)
+    collateralTokenDelta: BN;
+    inputMint?: PublicKey;
+    slippageBps?: number;
+    // Oracle price in USDC decimals, fetched from the custody's Doves price feed when omitted
+    tokenPrice?: BN;
+    counter?: BN;
+  },
+) {
+  const { position } = generatePositionPda({
+    custody,
+    collateralCustody,
+    walletAddress: owner,
+    side,
+  });
+
+  const { positionRequest, counter: requestCounter } =
+    generatePositionRequestPda({
+      counter,
+      positionPubkey: position,
+      requestChange: "increase",
+    });
+
+  // Funding depends on the input mint: wrap/unwrap for SOL, the owner's ATA for SPL tokens and
+  // a `jupiterMinimumOut` quote whenever the input has to be swapped into the collateral mint
+  const collateralCustodyAccount = await client.getCustody(collateralCustody);
+  const {
+    fundingAccount,
+    positionRequestAta,
+    preInstructions,
+    postInstructions,
+    jupiterMinimumOut,
+  } = await prepareIncreaseFunding({
+    owner,
+    inputMint,
+    collateralMint: collateralCustodyAccount.mint,
+    positionRequest,
+    collateralTokenDelta,
+    slippageBps,
+  });
+
+  // Worst fill price derived from the oracle price: above it for longs, below it for shorts
+  const priceSlippage = calculatePriceSlippage({
+    tokenPrice: tokenPrice ?? (await client.getTokenPrice(custody)),
+    side,
+    requestChange: "increase",
+    slippageBps,
+  });
+
+  const increaseIx = await client.program.methods
+    .createIncreasePositionMarketRequest({
+      counter: requestCounter,
+      collateralTokenDelta,
+      jupiterMinimumOut,
+      priceSlippage,
+      side: side === "long" ? { long: {} } : { short: {} },
+      sizeUsdDelta,
+    })
+    .accounts({
+      owner,
+      pool: client.poolPubkey,
+      position,
+      positionRequest,
+      positionRequestAta,
+      custody,
+      collateralCustody,
+      fundingAccount,
+      inputMint,
+      perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      referral: null,
+    })
+    .instruction();
+
+  return {
+    instructions: [...preInstructions, increaseIx, ...postInstructions],
+    position,
+    positionRequest,
+    counter: requestCounter,
+  };
+}
+
+// Requests a full close of the position, paid out in `desiredMint` (the collateral mint by default)
+export async function buildClosePositionRequest(
+  client: PerpetualsClient,
+  {
+    owner,
+    positionPubkey,
+    desiredMint,
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+    tokenPrice,
+    counter,
+  }: {
+    owner: PublicKey;
+    positionPubkey: PublicKey;
+    desiredMint?: PublicKey;
+    slippageBps?: number;
+    tokenPrice?: BN;
+    counter?: BN;
+  },
+) {
+  const position = await client.getPosition(positionPubkey);
+
+  if (position.sizeUsd.isZero()) {
+    throw new Error(`Position ${positionPubkey.toString()} is closed`);
+  }
+
+  const { positionRequest, counter: requestCounter } =
+    generatePositionRequestPda({
+      counter,
+      positionPubkey,
+      requestChange: "decrease",
+    });
+
+  const mint =
+    desiredMint ?? (await client.getCustody(position.collateralCustody)).mint;
+  const receivingAccount = getAssociatedTokenAddressSync(mint, owner);
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    mint,
+    positionRequest,
+    true,
+  );
+
+  // Worst fill price derived from the oracle price: below it for longs, above it for shorts
+  const priceSlippage = calculatePriceSlippage({
+    tokenPrice: tokenPrice ?? (await client.getTokenPrice(position.custody)),
+    side: position.side.long ? "long" : "short",
+    requestChange: "decrease",
+    slippageBps,
+  });
+
+  const decreaseIx = await client.program.methods
+    .createDecreasePositionMarketRequest({
+      collateralUsdDelta: new BN(0),
+      sizeUsdDelta: new BN(0),
+      priceSlippage,
+      jupiterMinimumOut: null,
+      counter: requestCounter,
+      entirePosition: true,
+    })
+    .accounts({
+      owner,
+      pool: position.pool,
+      position: positionPubkey,
+      positionRequest,
+      positionRequestAta,
+      custody: position.custody,
+      collateralCustody: position.collateralCustody,
+      desiredMint: mint,
+      receivingAccount,
+      perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      referral: null,
+    })
+    .instruction();
+
+  return {
+    instructions: [
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        receivingAccount,
+        owner,
+        mint,
+      ),
+      decreaseIx,
+    ],
+    positionRequest,
+    counter: requestCounter,
+  };
+}
@@ -0,0 +1,233 @@
+import BN from "bn.js";
+import type { Custody, Position, UsdValue } from "./types";
+import {
+  BNToUSDRepresentation,
+  BPS_POWER,
+  divCeil,
+  RATE_POWER,
+  USDC_DECIMALS,
+} from "./units";
+
+// Pure versions of the calculations in `examples/*`. Nothing in here touches the RPC, the caller
+// is expected to pass in the `Position` / `Custody` accounts it already holds.
+
+const HOURS_IN_A_YEAR = 24 * 365;
+
+export function toUsdValue(
+  value: BN,
+  exponent: number = USDC_DECIMALS,
+  displayDecimals: number = 2,
+): UsdValue {
+  return {
+    value,
+    formatted: BNToUSDRepresentation(value, exponent, displayDecimals),
+  };
+}
+
+export const getCumulativeInterest = (custody: Custody, curtime: BN) => {
+  if (curtime.gt(custody.fundingRateState.lastUpdate)) {
+    const fundingRate = getFundingRate(custody, curtime);
+    return custody.fundingRateState.cumulativeInterestRate.add(fundingRate);
+  } else {
+    return custody.fundingRateState.cumulativeInterestRate;
+  }
+};
+
+export const getHourlyBorrowRate = (custody: Custody) => {
+  const { minRateBps, maxRateBps, targetRateBps, targetUtilizationRate } =
+    custody.jumpRateState;
+
+  const utilizationRate =
+    custody.assets.owned.gtn(0) && custody.assets.locked.gtn(0)
+      ? custody.assets.locked.mul(RATE_POWER).div(custody.assets.owned)
+      : new BN(0);
+
+  let yearlyRate: BN;
+
+  if (utilizationRate.lte(targetUtilizationRate)) {
+    yearlyRate = targetRateBps
+      .sub(minRateBps)
+      .mul(utilizationRate)
+      .div(targetUtilizationRate)
+      .add(minRateBps)
+      .mul(RATE_POWER)
+      .div(BPS_POWER);
+  } else {
+    const rateDiff = maxRateBps.sub(targetRateBps);
+    const utilDiff = utilizationRate.sub(targetUtilizationRate);
+    const denom = RATE_POWER.sub(targetUtilizationRate);
+
+    yearlyRate = rateDiff
+      .mul(utilDiff)
+      .div(denom)
+      .add(targetRateBps)
+      .mul(RATE_POWER)
+      .div(BPS_POWER);
+  }
+
+  return yearlyRate.divn(HOURS_IN_A_YEAR);
+};
+
+export function getBorrowRatePct(custody: Custody): number {
+  return (
+    getHourlyBorrowRate(custody).muln(100).toNumber() / RATE_POWER.toNumber()
+  );
+}
+
+export const getFundingRate = (custody: Custody, curtime: BN) => {
+  if (custody.assets.owned.eqn(0)) return new BN(0);
+
+  const interval = curtime.sub(custody.fundingRateState.lastUpdate);
+  const currentFundingRate = getHourlyBorrowRate(custody);
+
+  return divCeil(currentFundingRate.mul(interval), new BN(3600));
+};
+
+// Outstanding borrow fee accrued since the position's last `cumulativeInterestSnapshot`
+export function calculateBorrowFee(
+  position: Position,
+  custody: Custody,
+  curtime: BN,
+) {
+  if (position.sizeUsd.eqn(0)) return new BN(0);
+
+  const cumulativeInterest = getCumulativeInterest(custody, curtime);
+  const positionInterest = cumulativeInterest.sub(
+    position.cumulativeInterestSnapshot,
+  );
+
+  return divCeil(positionInterest.mul(position.sizeUsd), RATE_POWER);
+}
+
+// Use "open" (`increasePositionBps`) for open position / deposit collateral trades and
+// "close" (`decreasePositionBps`) for close position / withdraw collateral trades
+export function calculateOpenCloseBaseFee(
+  tradeSizeUsd: BN,
+  custody: Custody,
+  action: "open" | "close",
+) {
+  const baseFeeBps =
+    action === "open"
+      ? custody.increasePositionBps
+      : custody.decreasePositionBps;
+
+  return tradeSizeUsd.mul(baseFeeBps).div(BPS_POWER);
+}
+
+export function calculatePriceImpactFee(tradeSizeUsd: BN, custody: Custody) {
+  const priceImpactFeeBps = divCeil(
+    tradeSizeUsd.mul(BPS_POWER),
+    custody.pricing.tradeImpactFeeScalar,
+  );
+
+  return tradeSizeUsd.mul(priceImpactFeeBps).div(BPS_POWER);
+}
+
+export function getPnlForSize(
+  sizeUsdDelta: BN,
+  positionAvgPrice: BN,
+  positionSide: "long" | "short",
+  tokenPrice: BN,
+) {
+  if (sizeUsdDelta.eqn(0)) return { hasProfit: false, pnl: new BN(0) };
+
+  const hasProfit =
+    positionSide === "long"
+      ? tokenPrice.gt(positionAvgPrice)
+      : positionAvgPrice.gt(tokenPrice);
+
+  const tokenPriceDelta = tokenPrice.sub(positionAvgPrice).abs();
+
+  const pnl = sizeUsdDelta.mul(tokenPriceDelta).div(positionAvgPrice);
+
+  return { hasProfit, pnl };
+}
+
+// Note that the calculation below gets the position's PNL before fees
+export function calculatePositionPnl(position: Position, tokenPrice: BN) {
+  const { hasProfit, pnl } = getPnlForSize(
+    position.sizeUsd,
+    position.price,
+    position.side.long ? "long" : "short",
+    tokenPrice,
+  );
+
+  return { hasProfit, pnl: hasProfit ? pnl : pnl.neg() };
+}
+
+export function calculateLiquidationPrice(
+  position: Position,
+  custody: Custody,
+  collateralCustody: Custody,
+) {
+  const priceImpactFeeBps = position.sizeUsd
+    .mul(BPS_POWER)
+    .div(custody.pricing.tradeImpactFeeScalar);
+  const baseFeeBps = custody.decreasePositionBps;
+  const totalFeeBps = baseFeeBps.add(priceImpactFeeBps);
+
+  const closeFeeUsd = position.sizeUsd.mul(totalFeeBps).div(BPS_POWER);
+
+  const borrowFeeUsd = collateralCustody.fundingRateState.cumulativeInterestRate
+    .sub(position.cumulativeInterestSnapshot)
+    .mul(position.sizeUsd)
+    .div(RATE_POWER);
+
+  const totalFeeUsd = closeFeeUsd.add(borrowFeeUsd);
+
+  const maxLossUsd = position.sizeUsd
+    .mul(BPS_POWER)
+    .div(custody.pricing.maxLeverage)
+    .add(totalFeeUsd);
+
+  const marginUsd = position.collateralUsd;
+
+  let maxPriceDiff = maxLossUsd.sub(marginUsd).abs();
+  maxPriceDiff = maxPriceDiff.mul(position.price).div(position.sizeUsd);
+
+  if (position.side.long) {
+    if (maxLossUsd.gt(marginUsd)) {
+      return position.price.add(maxPriceDiff);
+    } else {
+      return position.price.sub(maxPriceDiff);
+    }
+  } else {
+    if (maxLossUsd.gt(marginUsd)) {
+      return position.price.sub(maxPriceDiff);
+    } else {
+      return position.price.add(maxPriceDiff);
+    }
+  }
+}
+
+// PNL net of everything a full close would pay right now: the close base fee, the price impact
+// fee on the position size and the borrow fee accrued since the last interest snapshot, which
+// accrues on the collateral custody like in `calculateLiquidationPrice`
+export function calculatePositionPnlAfterFees(
+  position: Position,
+  custody: Custody,
+  collateralCustody: Custody,
+  tokenPrice: BN,
+  curtime: BN,
+) {
+  const { hasProfit, pnl } = calculatePositionPnl(position, tokenPrice);
+
+  const closeFee = calculateOpenCloseBaseFee(
+    position.sizeUsd,
+    custody,
+    "close",
+  );
+  const priceImpactFee = calculatePriceImpactFee(position.sizeUsd, custody);
+  const borrowFee = calculateBorrowFee(position, collateralCustody, curtime);
+  const totalFees = closeFee.add(priceImpactFee).add(borrowFee);
+
+  return {
+    hasProfit,
+    pnl,
+    closeFee,
+    priceImpactFee,
+    borrowFee,
+    totalFees,
+    pnlAfterFees: pnl.sub(totalFees),
+  };
+}
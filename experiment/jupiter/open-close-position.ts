@@ -3,49 +3,36 @@
  *
  *  USAGE
  *  -----
- *  # set RPC_URL and KEYPAIR in a .env (or replace inline)
+ *  # set CLUSTER / RPC_URL and KEYPAIR in a .env, see ../config.ts
  *  ts-node jupiter-perps.ts
  */
 
-import {
-  AnchorProvider,
-  BN,
-  Program,
-  Wallet,
-} from "@coral-xyz/anchor";
-import {
-  createAssociatedTokenAccountIdempotentInstruction,
-  createCloseAccountInstruction,
-  createSyncNativeInstruction,
-  getAssociatedTokenAddressSync,
-  NATIVE_MINT,
-} from "@solana/spl-token";
-import {
-  ComputeBudgetProgram,
-  Connection,
-  Keypair,
-  PublicKey,
-  SystemProgram,
-  TransactionMessage,
-  VersionedTransaction
-} from "@solana/web3.js";
+import { AnchorProvider, Program, Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { PublicKey } from "@solana/web3.js";
 import "dotenv/config";
-import { generatePositionPda, generatePositionRequestPda } from "./examples/generate-position-and-position-request-pda";
+import { createConnection } from "../config";
+import { LookupTableRegistry } from "../lookup-tables";
+import { sendTransactionOrThrow } from "../send-transaction";
 import {
   CUSTODY_PUBKEY,
   JUPITER_PERPETUALS_PROGRAM_ID,
-  JLP_POOL_ACCOUNT_PUBKEY
 } from "./constants";
-import { MAINNET_RPC_URL, loadKeypair } from "./utils";
+import { config, loadKeypair } from "./utils";
 import IDL from "../idl/jupiter-perpetuals-idl-json.json";
 import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { PerpetualsClient } from "./perpetuals-client";
+import {
+  buildClosePositionRequest,
+  buildOpenPositionRequest,
+} from "./market-requests";
+import { PositionRequestTracker } from "./position-request-tracker";
 // ─────────────────────────────────────────────────────────────────────────
 
 const keypair = loadKeypair();
 
-const connection = new Connection(
-  MAINNET_RPC_URL
-);
+const connection = createConnection(config);
 
 const PROGRAM = new Program<Perpetuals>(
   IDL as any,
@@ -55,11 +42,10 @@ const PROGRAM = new Program<Perpetuals>(
   })
 );
 
-// Jupiter Perpetuals State
-const perpetuals = PublicKey.findProgramAddressSync(
-  [Buffer.from("perpetuals")],
-  JUPITER_PERPETUALS_PROGRAM_ID
-)[0];
+const client = new PerpetualsClient(PROGRAM);
+
+// Created with `yarn lookup-tables create jupiter-perps`, sends without one until then
+const lookupTables = new LookupTableRegistry(connection, config.cluster);
 
 const COLLATERAL_USDC_CUSTODY = new PublicKey(CUSTODY_PUBKEY.USDC);
 const CUSTODY = new PublicKey(CUSTODY_PUBKEY.BTC);
@@ -67,146 +53,54 @@ const CUSTODY = new PublicKey(CUSTODY_PUBKEY.BTC);
 // choose which token you want back; here we redeem as USDC
 const mintUSDC = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"); // USDC mint
 
-// Need a wrapped‑SOL ATA that lives *under the positionRequest PDA*
-const fundingAccount = getAssociatedTokenAddressSync(
-  mintUSDC,
-  keypair.publicKey,
-  true
-);
-
 // ─────────────────────────────────────────────────────────────────────────
 //  OPEN position                                                          ─
 export async function openPerpPosition(params: {
   side: "long" | "short";
   sizeUsd: number;             // e.g. 100  ==  $100 notional
-  collateralSol: number;       // lamports of SOL to post
+  collateralAmount: number;    // base units of `inputMint` to post (lamports for SOL)
+  inputMint?: PublicKey;       // default native SOL
   maxPriceSlippagePct?: number // default 1 %
 }) {
   const {
     side,
     sizeUsd,
-    collateralSol,
+    collateralAmount,
+    inputMint = NATIVE_MINT,
     maxPriceSlippagePct = 1,
   } = params;
 
   // basic inputs
   const owner = keypair.publicKey;
-  const sizeUsdDelta = new BN(sizeUsd * 1e6);            // USDC 6 decimals
-  const collateralDelta = new BN(collateralSol);
-
-  // derive PDAs
-  // #7 - Position
-  const { position: positionPda } = generatePositionPda({
-    custody: CUSTODY,
-    collateralCustody: COLLATERAL_USDC_CUSTODY,
-    walletAddress: keypair.publicKey,
-    side,
-  });
-
-  const { positionRequest, counter } = generatePositionRequestPda({
-    positionPubkey: positionPda,
-    requestChange: "increase",
-  });
-
-  const positionRequestAta = getAssociatedTokenAddressSync(mintUSDC, positionRequest, true);
-
-
-  // Quoting – only needed when the trade requires a swap (SOL→SOL doesn't),
-  // but I include the pattern for completeness.
-  const jupiterMinimumOut = null; // leave null for native SOL longs
-
-  // wrong! Slippage in quote units (USDC 6dp)
-  const priceSlippage = new BN(
-    (maxPriceSlippagePct / 100) * 1e6 * 1 // $1 in quote units
-  );
-
-  // priceSlippage **increase** position should be less for long positions and greater for shorts
-  // priceSlippage based on current price (SOL/USD price, for example)
-  // const priceSlippage = price * 101 / 100; // 1% slippage for long
-  // const priceSlippage = price * 99 / 100; // 1% slippage for short
-
 
-
-  // — Build instruction list —
-  const preIxs = [
-    // create wSOL ATA
-    createAssociatedTokenAccountIdempotentInstruction(
-      owner,
-      fundingAccount,
-      positionRequest,
-      mintUSDC
-    ),
-    SystemProgram.transfer({
-      fromPubkey: owner,
-      toPubkey: fundingAccount,
-      lamports: BigInt(collateralDelta.toString()),
-    }),
-    createSyncNativeInstruction(fundingAccount),
-  ];
-  const increaseIx = await PROGRAM.methods
-    .createIncreasePositionMarketRequest({
-      counter,
-      collateralTokenDelta: collateralDelta,
-      jupiterMinimumOut,
-      priceSlippage,
-      side: side === "long" ? { long: {} } : { short: {} },
-      sizeUsdDelta,
-    })
-    .accounts({
-      // mandatory accounts
+  const { instructions, position, positionRequest } =
+    await buildOpenPositionRequest(client, {
       owner,
-      pool: JLP_POOL_ACCOUNT_PUBKEY,
-      position: positionPda,
-      positionRequest,
-      positionRequestAta,
       custody: CUSTODY,
       collateralCustody: COLLATERAL_USDC_CUSTODY,
-      fundingAccount,
-      inputMint: mintUSDC,
-      perpetuals,
-      referral: null,
-    })
-    .instruction();
-
-  // compute budget – sim first to size it correctly
-  const recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
-  const simMessage = new TransactionMessage({
-    payerKey: owner,
-    recentBlockhash,
-    instructions: preIxs.concat(increaseIx),
-  }).compileToV0Message();
-  const simTx = new VersionedTransaction(simMessage);
-  const sim = await connection.simulateTransaction(simTx, {
-    replaceRecentBlockhash: true,
-    sigVerify: false,
-  });
-  const cuLimit = sim.value.unitsConsumed ?? 1_400_000;
-
-  // final tx
-  const txMsg = new TransactionMessage({
-    payerKey: owner,
-    recentBlockhash,
-    instructions: [
-      ComputeBudgetProgram.setComputeUnitLimit({ units: cuLimit }),
-      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
-      ...preIxs,
-      increaseIx,
-      // close wSOL ATA after keeper executes
-      createCloseAccountInstruction(fundingAccount, owner, owner),
-    ],
-  }).compileToV0Message();
-
-  const tx = new VersionedTransaction(txMsg);
-  tx.sign([keypair]);
-  const sig = await connection.sendTransaction(tx, {
-    skipPreflight: true,
+      side,
+      sizeUsdDelta: new BN(sizeUsd * 1e6),            // USDC 6 decimals
+      collateralTokenDelta: new BN(collateralAmount),
+      inputMint,
+      slippageBps: Math.round(maxPriceSlippagePct * 100),
+    });
+
+  const { signature } = await sendTransactionOrThrow(connection, instructions, {
+    signers: [keypair],
+    lookupTables: await lookupTables.getAll(["jupiter-perps"]),
   });
-  console.log("📤  open request sent:", sig);
+
+  console.log("📤  open request sent:", signature);
+
+  return { signature, positionRequest, position };
 }
 
 // ─────────────────────────────────────────────────────────────────────────
 //  CLOSE (full)                                                           ─
-export async function closePerpPosition(positionPda: PublicKey) {
+export async function closePerpPosition(
+  positionPda: PublicKey,
+  maxPriceSlippagePct = 1, // default 1 %
+) {
   const position = await PROGRAM.account.position.fetch(positionPda);
 
   if (!position || position.sizeUsd.isZero()) {
@@ -214,63 +108,29 @@ export async function closePerpPosition(positionPda: PublicKey) {
     return;
   }
 
-  const { positionRequest, counter } = generatePositionRequestPda({
-    positionPubkey: positionPda,
-    requestChange: "decrease",
+  // choose which token you want back; here we redeem as USDC
+  const { instructions, positionRequest } = await buildClosePositionRequest(
+    client,
+    {
+      owner: keypair.publicKey,
+      positionPubkey: positionPda,
+      desiredMint: mintUSDC,
+      slippageBps: Math.round(maxPriceSlippagePct * 100),
+    },
+  );
+
+  const { signature } = await sendTransactionOrThrow(connection, instructions, {
+    signers: [keypair],
+    lookupTables: await lookupTables.getAll(["jupiter-perps"]),
   });
 
-  // choose which token you want back; here we redeem as SOL
-  const desiredMint = mintUSDC;
-  const positionRequestAta = getAssociatedTokenAddressSync(desiredMint, positionRequest, true);
-
-
-    // wrong!
-    const priceSlippage = new BN(10_000_000_000);
-  
-    // priceSlippage for **decrease** position should be greater for long positions and less for shorts
-    // priceSlippage based on current price (SOL/USD price, for example)
-    // const priceSlippage = price * 99 / 100; // 1% slippage for long
-    // const priceSlippage = price * 101 / 100; // 1% slippage for short
-
-  const decIx = await PROGRAM.methods
-    .createDecreasePositionMarketRequest({
-      collateralUsdDelta: new BN(0),
-      sizeUsdDelta: new BN(0),
-      priceSlippage: new BN(10_000_000_000), // 1% slippage
-      jupiterMinimumOut: null,
-      counter: new BN(counter),
-      entirePosition: true,
-    })
-    .accounts({
-      owner: keypair.publicKey,
-      pool: JLP_POOL_ACCOUNT_PUBKEY,
-      position: positionPda,
-      positionRequest,
-      positionRequestAta,
-      custody: CUSTODY,
-      collateralCustody: COLLATERAL_USDC_CUSTODY,
-      desiredMint,
-      receivingAccount: fundingAccount,
-      perpetuals,
-      referral: null,
-    })
-    .instruction();
-
-  const bh = (await connection.getLatestBlockhash()).blockhash;
-  const msg = new TransactionMessage({
-    payerKey: keypair.publicKey,
-    recentBlockhash: bh,
-    instructions: [
-      ComputeBudgetProgram.setComputeUnitLimit({ units: 1_200_000 }),
-      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
-      decIx,
-    ],
-  }).compileToV0Message();
-  const tx = new VersionedTransaction(msg);
-  tx.sign([keypair]);
-
-  const sig = await connection.sendTransaction(tx, { skipPreflight: true });
-  console.log("📤  close request sent:", sig);
+  console.log("📤  close request sent:", signature);
+
+  return {
+    signature,
+    positionRequest,
+    position: positionPda,
+  };
 }
 
 // ─────────────────────────────────────────────────────────────────────────
@@ -283,23 +143,34 @@ export async function closePerpPosition(positionPda: PublicKey) {
 
   console.log("Opening position...");
 
-  const sig = await openPerpPosition({
+  const open = await openPerpPosition({
     side: "long",
     sizeUsd: 5,
-    collateralSol: 0.1 * 1e9, // lamports
+    collateralAmount: 0.1 * 1e9, // lamports
+    inputMint: NATIVE_MINT,
   });
 
-  console.log("Position opened with signature: ", sig);
+  // The request is only executed once a keeper picks it up, cancel it (and get the collateral
+  // back) if that hasn't happened within a minute
+  const opened = await new PositionRequestTracker(
+    PROGRAM,
+    open.positionRequest,
+  ).waitOrCancel(keypair, { timeoutMs: 60_000 });
+
+  console.log(`Open request ${opened.status}:`, opened.signature);
+
+  if (opened.status !== "executed") return;
 
   console.log("Closing position...");
-  // wait a few seconds then close the exact same position
-  // (you'd normally fetch the PDA list first)
-  const { position: positionPda } = generatePositionPda({
-    custody: CUSTODY,
-    collateralCustody: COLLATERAL_USDC_CUSTODY,
-    walletAddress: keypair.publicKey,
-    side: "long",
-  });
 
-  await closePerpPosition(positionPda);
+  const close = await closePerpPosition(open.position);
+
+  if (!close) return;
+
+  const closed = await new PositionRequestTracker(
+    PROGRAM,
+    close.positionRequest,
+  ).waitOrCancel(keypair, { timeoutMs: 60_000 });
+
+  console.log(`Close request ${closed.status}:`, closed.signature);
 })();
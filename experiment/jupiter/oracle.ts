@@ -0,0 +1,432 @@
+import { AnchorProvider, Program, Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { EventEmitter } from "events";
+import { IDL as DovesIDL, type Doves } from "../idl/doves-idl";
+import { IDL, type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import {
+  CUSTODY_DETAILS,
+  CUSTODY_PUBKEY,
+  DOVES_PROGRAM_ID,
+  JUPITER_PERPETUALS_PROGRAM_ID,
+  USDC_DECIMALS,
+} from "./constants";
+import { BNToUSDRepresentation } from "./utils";
+
+/* Constants */
+
+export const DOVES_ORACLES = [
+  {
+    name: "SOL",
+    publicKey: CUSTODY_DETAILS[CUSTODY_PUBKEY.SOL].dovesOracle,
+    custody: CUSTODY_PUBKEY.SOL,
+  },
+  {
+    name: "ETH",
+    publicKey: CUSTODY_DETAILS[CUSTODY_PUBKEY.ETH].dovesOracle,
+    custody: CUSTODY_PUBKEY.ETH,
+  },
+  {
+    name: "BTC",
+    publicKey: CUSTODY_DETAILS[CUSTODY_PUBKEY.BTC].dovesOracle,
+    custody: CUSTODY_PUBKEY.BTC,
+  },
+  {
+    name: "USDC",
+    publicKey: CUSTODY_DETAILS[CUSTODY_PUBKEY.USDC].dovesOracle,
+    custody: CUSTODY_PUBKEY.USDC,
+  },
+  {
+    name: "USDT",
+    publicKey: CUSTODY_DETAILS[CUSTODY_PUBKEY.USDT].dovesOracle,
+    custody: CUSTODY_PUBKEY.USDT,
+  },
+];
+
+/* Types */
+
+export interface DovesOraclePrice {
+  price: BN;
+  priceUsd: string;
+  timestamp: number;
+  expo: number;
+}
+
+// Oracle prices keyed by the custody pubkey (as a string)
+export type CustodyToOraclePrice = Record<string, DovesOraclePrice>;
+
+/* Functions */
+
+export function createDovesProgram(connection: Connection) {
+  return new Program<Doves>(
+    DovesIDL,
+    DOVES_PROGRAM_ID,
+    new AnchorProvider(connection, new Wallet(Keypair.generate()), {
+      preflightCommitment: "processed",
+    }),
+  );
+}
+
+export function toDovesOraclePrice(feed: {
+  price: BN;
+  expo: number;
+  timestamp: BN;
+}): DovesOraclePrice {
+  return {
+    price: feed.price,
+    priceUsd: BNToUSDRepresentation(feed.price, Math.abs(feed.expo)),
+    timestamp: feed.timestamp.toNumber(),
+    expo: feed.expo,
+  };
+}
+
+// Doves prices are published with their own exponent (usually -8) while the perpetuals program
+// stores prices (e.g. `position.price`) with USDC decimals, so rescale before comparing the two
+export function toUsdcPrecision({ price, expo }: DovesOraclePrice) {
+  const exponentDiff = USDC_DECIMALS + expo;
+
+  if (exponentDiff >= 0) {
+    return price.mul(new BN(10).pow(new BN(exponentDiff)));
+  }
+
+  return price.div(new BN(10).pow(new BN(-exponentDiff)));
+}
+
+export function findDovesOracle(custodyPubkey: PublicKey | string) {
+  const oracle = DOVES_ORACLES.find(
+    ({ custody }) => custody === custodyPubkey.toString(),
+  );
+
+  if (!oracle) {
+    throw new Error(
+      `Cannot find Doves oracle for custody: ${custodyPubkey.toString()}`,
+    );
+  }
+
+  return oracle;
+}
+
+// One-shot fetch of a single custody's price feed, useful when there is no running subscription
+export async function fetchOraclePrice(
+  dovesProgram: Program<Doves>,
+  custodyPubkey: PublicKey | string,
+) {
+  const { publicKey } = findDovesOracle(custodyPubkey);
+  const feed = await dovesProgram.account.priceFeed.fetch(publicKey);
+
+  return toDovesOraclePrice(feed);
+}
+
+export async function fetchAndUpdateOraclePriceData(
+  dovesProgram: Program<Doves>,
+  cache: CustodyToOraclePrice,
+) {
+  const dovesPubkey = DOVES_ORACLES.map(({ publicKey }) => publicKey);
+  const feeds = await dovesProgram.account.priceFeed.fetchMultiple(dovesPubkey);
+
+  DOVES_ORACLES.forEach(({ custody }, index) => {
+    const feed = feeds[index];
+
+    if (!feed) {
+      throw new Error(
+        `Failed to fetch latest oracle price data for: ${custody.toString()}`,
+      );
+    }
+
+    cache[custody.toString()] = toDovesOraclePrice(feed);
+  });
+
+  return cache;
+}
+
+export function createEmptyOraclePriceCache() {
+  return DOVES_ORACLES.reduce((cache, entries) => {
+    cache[entries.custody.toString()] = {
+      price: new BN(0),
+      priceUsd: "0",
+      timestamp: 0,
+      expo: 0,
+    };
+
+    return cache;
+  }, {} as CustodyToOraclePrice);
+}
+
+// One-shot fetch of every custody's price feed into a fresh cache
+export async function fetchOraclePrices(dovesProgram: Program<Doves>) {
+  return fetchAndUpdateOraclePriceData(
+    dovesProgram,
+    createEmptyOraclePriceCache(),
+  );
+}
+
+// Returns the cached price for the custody, falling back to a one-shot fetch when the cache
+// has not been populated yet (or was not provided at all)
+export async function getOraclePrice(
+  dovesProgram: Program<Doves>,
+  custodyPubkey: PublicKey | string,
+  cache?: CustodyToOraclePrice,
+) {
+  const cached = cache?.[custodyPubkey.toString()];
+
+  if (cached && cached.timestamp > 0) return cached;
+
+  return fetchOraclePrice(dovesProgram, custodyPubkey);
+}
+
+/* Streaming */
+
+// Mirrors the program's `PriceStaleTolerance`: `strict` is the window trades are held to, `loose` a
+// wider one for reads (e.g. AUM / PnL displays) that only need a reasonably recent price
+export type PriceStaleTolerance = "strict" | "loose";
+
+// Used when the custodies can't be fetched, otherwise `strict` is each custody's
+// `oracle.maxPriceAgeSec` and `loose` is never tighter than it
+export const DEFAULT_MAX_PRICE_AGE_SEC: Record<PriceStaleTolerance, number> = {
+  strict: 5,
+  loose: 30,
+};
+
+export type OraclePriceStaleness = {
+  custody: string;
+  name: string;
+  ageSec: number;
+  maxPriceAgeSec: number;
+};
+
+export type OraclePriceFeedEvents = {
+  // A feed moved to a newer price
+  price: [custody: string, price: DovesOraclePrice];
+  // Emitted after every `price`, with the whole cache
+  update: [cache: CustodyToOraclePrice];
+  // Edge triggered: once when a feed goes stale and once when it recovers
+  stale: [staleness: OraclePriceStaleness];
+  fresh: [staleness: OraclePriceStaleness];
+  // The account subscriptions were dropped and re-created
+  reconnect: [];
+  error: [err: unknown];
+};
+
+// Keeps `cache` up to date with every Doves price feed, streaming the feed accounts with
+// `onAccountChange` and polling them with `fetchMultiple` in case the stream misses updates.
+//
+// The Doves feeds update several times a second, so a stream that has been silent for
+// `streamTimeoutMs` is assumed dead and resubscribed. Failed polls back off exponentially up to
+// `maxBackoffMs`. Errors are emitted as `error` events (logged when nobody listens), `start` is the
+// only call that throws, when the initial fetch fails.
+export class OraclePriceFeed extends EventEmitter<OraclePriceFeedEvents> {
+  readonly cache = createEmptyOraclePriceCache();
+  private readonly dovesProgram: Program<Doves>;
+  private readonly perpetualsProgram: Program<Perpetuals>;
+  // Each custody's `oracle.maxPriceAgeSec`, fetched on `start`
+  private custodyMaxPriceAgeSec: Record<string, number> = {};
+  private readonly staleFeeds = new Set<string>();
+  private subscriptions: number[] = [];
+  private pollTimer: ReturnType<typeof setTimeout> | undefined;
+  private stalenessTimer: ReturnType<typeof setInterval> | undefined;
+  private lastStreamUpdateAt = 0;
+  private failures = 0;
+  private running = false;
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly options: {
+      pollIntervalMs?: number;
+      maxBackoffMs?: number;
+      streamTimeoutMs?: number;
+      stalenessCheckMs?: number;
+      tolerance?: PriceStaleTolerance;
+      // Per custody override of the max age the custody's `oracle.maxPriceAgeSec` gives
+      maxPriceAgeSec?: Record<string, number>;
+    } = {},
+  ) {
+    super();
+    this.dovesProgram = createDovesProgram(connection);
+    this.perpetualsProgram = new Program<Perpetuals>(
+      IDL,
+      JUPITER_PERPETUALS_PROGRAM_ID,
+      this.dovesProgram.provider,
+    );
+  }
+
+  async start() {
+    if (this.running) return this.cache;
+
+    await Promise.all([this.fetchPrices(), this.fetchMaxPriceAges()]);
+
+    this.running = true;
+    this.subscribe();
+    this.schedulePoll(this.options.pollIntervalMs ?? 1_000);
+    this.stalenessTimer = setInterval(
+      () => this.checkStaleness(),
+      this.options.stalenessCheckMs ?? 1_000,
+    );
+
+    return this.cache;
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.pollTimer);
+    clearInterval(this.stalenessTimer);
+    this.unsubscribe();
+  }
+
+  isStale(custodyPubkey: PublicKey | string) {
+    return this.staleFeeds.has(custodyPubkey.toString());
+  }
+
+  private subscribe() {
+    this.lastStreamUpdateAt = Date.now();
+    this.subscriptions = DOVES_ORACLES.map(({ publicKey, custody }) =>
+      this.connection.onAccountChange(
+        publicKey,
+        (accountInfo) => {
+          this.lastStreamUpdateAt = Date.now();
+
+          try {
+            const feed = this.dovesProgram.coder.accounts.decode(
+              "priceFeed",
+              accountInfo.data,
+            );
+
+            this.setPrice(custody, toDovesOraclePrice(feed));
+          } catch (err) {
+            this.handleError(err);
+          }
+        },
+        "confirmed",
+      ),
+    );
+  }
+
+  private unsubscribe() {
+    this.subscriptions.forEach((id) =>
+      this.connection.removeAccountChangeListener(id).catch(() => {}),
+    );
+    this.subscriptions = [];
+  }
+
+  private async fetchPrices() {
+    const feeds = await this.dovesProgram.account.priceFeed.fetchMultiple(
+      DOVES_ORACLES.map(({ publicKey }) => publicKey),
+    );
+
+    DOVES_ORACLES.forEach(({ custody }, index) => {
+      const feed = feeds[index];
+
+      if (!feed) {
+        throw new Error(`Failed to fetch oracle price data for: ${custody}`);
+      }
+
+      this.setPrice(custody, toDovesOraclePrice(feed));
+    });
+  }
+
+  // A failure only costs the per custody windows, the feed falls back to the defaults
+  private async fetchMaxPriceAges() {
+    try {
+      const custodies =
+        await this.perpetualsProgram.account.custody.fetchMultiple(
+          DOVES_ORACLES.map(({ custody }) => custody),
+        );
+
+      DOVES_ORACLES.forEach(({ custody }, index) => {
+        const maxPriceAgeSec = custodies[index]?.oracle.maxPriceAgeSec;
+        if (maxPriceAgeSec) {
+          this.custodyMaxPriceAgeSec[custody] = maxPriceAgeSec;
+        }
+      });
+    } catch (err) {
+      this.handleError(err);
+    }
+  }
+
+  private maxPriceAgeSec(custody: string) {
+    const { tolerance = "strict", maxPriceAgeSec = {} } = this.options;
+    const custodyMaxPriceAgeSec = this.custodyMaxPriceAgeSec[custody];
+
+    if (maxPriceAgeSec[custody] !== undefined) return maxPriceAgeSec[custody];
+    if (custodyMaxPriceAgeSec === undefined) {
+      return DEFAULT_MAX_PRICE_AGE_SEC[tolerance];
+    }
+
+    return tolerance === "strict"
+      ? custodyMaxPriceAgeSec
+      : Math.max(custodyMaxPriceAgeSec, DEFAULT_MAX_PRICE_AGE_SEC.loose);
+  }
+
+  private schedulePoll(delayMs: number) {
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll() {
+    if (!this.running) return;
+
+    const {
+      pollIntervalMs = 1_000,
+      maxBackoffMs = 30_000,
+      streamTimeoutMs = 15_000,
+    } = this.options;
+
+    try {
+      await this.fetchPrices();
+      this.failures = 0;
+    } catch (err) {
+      this.failures++;
+      this.handleError(err);
+    }
+
+    if (!this.running) return;
+
+    if (Date.now() - this.lastStreamUpdateAt > streamTimeoutMs) {
+      this.unsubscribe();
+      this.subscribe();
+      this.emit("reconnect");
+    }
+
+    this.schedulePoll(
+      Math.min(pollIntervalMs * 2 ** this.failures, maxBackoffMs),
+    );
+  }
+
+  // The stream and the poll race each other, only move forward in time
+  private setPrice(custody: string, price: DovesOraclePrice) {
+    if (price.timestamp <= this.cache[custody].timestamp) return;
+
+    this.cache[custody] = price;
+    this.emit("price", custody, price);
+    this.emit("update", this.cache);
+  }
+
+  private checkStaleness() {
+    const now = Math.floor(Date.now() / 1000);
+
+    DOVES_ORACLES.forEach(({ name, custody }) => {
+      const { timestamp } = this.cache[custody];
+      const staleness = {
+        custody,
+        name,
+        ageSec: now - timestamp,
+        maxPriceAgeSec: this.maxPriceAgeSec(custody),
+      };
+
+      if (staleness.ageSec > staleness.maxPriceAgeSec) {
+        if (this.staleFeeds.has(custody)) return;
+
+        this.staleFeeds.add(custody);
+        this.emit("stale", staleness);
+      } else if (this.staleFeeds.delete(custody)) {
+        this.emit("fresh", staleness);
+      }
+    });
+  }
+
+  private handleError(err: unknown) {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", err);
+    } else {
+      console.error("Oracle price feed error", err);
+    }
+  }
+}
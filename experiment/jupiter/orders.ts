@@ -0,0 +1,312 @@
+/**
+ *  Jupiter Perpetuals – TP/SL and limit orders.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/orders.ts list [--wallet <pubkey>]
+ *  tsx jupiter/orders.ts tpsl-create --position <pubkey> --kind take-profit|stop-loss --price <usd> [--size <usd>]
+ *  tsx jupiter/orders.ts tpsl-update --request <pubkey> --price <usd> [--size <usd>]
+ *  tsx jupiter/orders.ts limit-create --market SOL|ETH|BTC --side long|short --price <usd> --size <usd> --collateral <amount>
+ *  tsx jupiter/orders.ts limit-update --request <pubkey> --price <usd> [--size <usd>]
+ *  tsx jupiter/orders.ts cancel --request <pubkey>
+ *
+ *  TP/SL commands accept `--instant` to use the `instant*` instructions instead. Those (and every
+ *  limit order command) need `--keeper <pubkey> --api-keeper <pubkey>`: the transaction is signed by
+ *  the owner and printed as base64 so it can be co-signed by the keepers, rather than sent.
+ *
+ *  Every command accepts `--cluster <name>`, see `../config`.
+ */
+
+import { Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { parseArgs } from "node:util";
+import { CUSTODY_PUBKEY, USDC_DECIMALS } from "./constants";
+import { PerpetualsClient } from "./perpetuals-client";
+import { buildClosePositionRequestInstructions } from "./position-request-tracker";
+import { PositionSide } from "./slippage";
+import {
+  buildCreateTpslInstructions,
+  buildInstantCreateLimitOrderInstructions,
+  buildInstantCreateTpslInstructions,
+  buildInstantUpdateLimitOrderInstruction,
+  buildInstantUpdateTpslInstruction,
+  buildUpdateTpslInstruction,
+  InstantSigners,
+  TriggerKind,
+} from "./trigger-orders";
+import { createConnection } from "../config";
+import { LookupTableRegistry } from "../lookup-tables";
+import { sendTransactionOrThrow } from "../send-transaction";
+import { BNToUSDRepresentation, config, loadKeypair } from "./utils";
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    wallet: { type: "string" },
+    position: { type: "string" },
+    request: { type: "string" },
+    kind: { type: "string" },
+    market: { type: "string" },
+    side: { type: "string" },
+    price: { type: "string" },
+    size: { type: "string" },
+    collateral: { type: "string" },
+    "input-mint": { type: "string" },
+    instant: { type: "boolean", default: false },
+    keeper: { type: "string" },
+    "api-keeper": { type: "string" },
+    cluster: { type: "string" },
+  },
+});
+
+const keypair = loadKeypair();
+const connection = createConnection(config);
+const client = PerpetualsClient.fromConnection(connection, new Wallet(keypair));
+const lookupTables = new LookupTableRegistry(connection, config.cluster);
+
+function required(name: keyof typeof values) {
+  const value = values[name];
+
+  if (typeof value !== "string") {
+    throw new Error(`Missing --${name}`);
+  }
+
+  return value;
+}
+
+function toUsdc(usd: string) {
+  return new BN(Math.round(Number(usd) * 10 ** USDC_DECIMALS));
+}
+
+function optionalUsdc(name: "size") {
+  const value = values[name];
+  return value === undefined ? undefined : toUsdc(value);
+}
+
+function instantSigners(): InstantSigners {
+  return {
+    keeper: new PublicKey(required("keeper")),
+    apiKeeper: new PublicKey(required("api-keeper")),
+  };
+}
+
+async function buildTransaction(instructions: TransactionInstruction[]) {
+  const latestBlockhash = await connection.getLatestBlockhash();
+  const tx = new VersionedTransaction(
+    await lookupTables.compileV0Message(
+      {
+        payerKey: keypair.publicKey,
+        recentBlockhash: latestBlockhash.blockhash,
+        instructions: [
+          ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
+          ...instructions,
+        ],
+      },
+      ["jupiter-perps"],
+    ),
+  );
+  tx.sign([keypair]);
+
+  return tx;
+}
+
+async function send(instructions: TransactionInstruction[]) {
+  const { signature } = await sendTransactionOrThrow(connection, instructions, {
+    signers: [keypair],
+    lookupTables: await lookupTables.getAll(["jupiter-perps"]),
+  });
+
+  console.log("📤  sent:", signature);
+}
+
+// The keepers still have to sign, so hand the owner-signed transaction over instead of sending it
+async function printForCosigning(instructions: TransactionInstruction[]) {
+  const tx = await buildTransaction(instructions);
+
+  console.log("✍️  signed by owner, needs the keeper signatures:");
+  console.log(Buffer.from(tx.serialize()).toString("base64"));
+}
+
+async function listTriggerOrders() {
+  const owner = values.wallet ? new PublicKey(values.wallet) : keypair.publicKey;
+
+  // `owner` is the first field after the 8 byte account discriminator
+  const requests = await client.program.account.positionRequest.all([
+    { memcmp: { offset: 8, bytes: owner.toBase58() } },
+  ]);
+
+  const triggerOrders = requests.filter(
+    ({ account }) => account.requestType.trigger,
+  );
+
+  if (triggerOrders.length === 0) {
+    console.log("No pending trigger orders for", owner.toBase58());
+    return;
+  }
+
+  triggerOrders.forEach(({ publicKey, account }) => {
+    const change = account.requestChange.increase ? "limit" : "tp/sl";
+    const side = account.side.long ? "long" : "short";
+    const direction = account.triggerAboveThreshold ? ">=" : "<=";
+    const size = account.entirePosition
+      ? "entire position"
+      : `$${BNToUSDRepresentation(account.sizeUsdDelta, USDC_DECIMALS)}`;
+    const triggerPrice = account.triggerPrice
+      ? BNToUSDRepresentation(account.triggerPrice, USDC_DECIMALS)
+      : "-";
+
+    console.log(
+      `${publicKey.toBase58()}  ${change} ${side}  price ${direction} $${triggerPrice}  ${size}`,
+    );
+  });
+}
+
+async function createTpsl() {
+  const params = {
+    owner: keypair.publicKey,
+    positionPubkey: new PublicKey(required("position")),
+    kind: required("kind") as TriggerKind,
+    triggerPrice: toUsdc(required("price")),
+    sizeUsdDelta: optionalUsdc("size"),
+    entirePosition: values.size === undefined,
+  };
+
+  if (params.kind !== "take-profit" && params.kind !== "stop-loss") {
+    throw new Error(`Invalid --kind: ${params.kind}`);
+  }
+
+  if (values.instant) {
+    const { instructions, positionRequest } =
+      await buildInstantCreateTpslInstructions(client, {
+        ...params,
+        ...instantSigners(),
+      });
+
+    console.log("TP/SL request:", positionRequest.toBase58());
+    return printForCosigning(instructions);
+  }
+
+  const { instructions, positionRequest } = await buildCreateTpslInstructions(
+    client,
+    params,
+  );
+
+  console.log("TP/SL request:", positionRequest.toBase58());
+  return send(instructions);
+}
+
+async function updateTpsl() {
+  const params = {
+    positionRequest: new PublicKey(required("request")),
+    triggerPrice: toUsdc(required("price")),
+    sizeUsdDelta: optionalUsdc("size"),
+  };
+
+  if (values.instant) {
+    return printForCosigning([
+      await buildInstantUpdateTpslInstruction(client, {
+        ...params,
+        ...instantSigners(),
+      }),
+    ]);
+  }
+
+  return send([await buildUpdateTpslInstruction(client, params)]);
+}
+
+async function createLimitOrder() {
+  const market = required("market").toUpperCase();
+  const side = required("side") as PositionSide;
+
+  if (!["SOL", "ETH", "BTC"].includes(market)) {
+    throw new Error(`Invalid --market: ${market}`);
+  }
+
+  if (side !== "long" && side !== "short") {
+    throw new Error(`Invalid --side: ${side}`);
+  }
+
+  const custody = new PublicKey(
+    CUSTODY_PUBKEY[market as keyof typeof CUSTODY_PUBKEY],
+  );
+  // Longs are backed by the traded token itself, shorts by USDC
+  const collateralCustody =
+    side === "long" ? custody : new PublicKey(CUSTODY_PUBKEY.USDC);
+  const { decimals } = await client.getCustody(collateralCustody);
+
+  const { instructions, positionRequest } =
+    await buildInstantCreateLimitOrderInstructions(client, {
+      ...instantSigners(),
+      owner: keypair.publicKey,
+      custody,
+      collateralCustody,
+      side,
+      sizeUsdDelta: toUsdc(required("size")),
+      collateralTokenDelta: new BN(
+        Math.round(Number(required("collateral")) * 10 ** decimals),
+      ),
+      triggerPrice: toUsdc(required("price")),
+      inputMint: values["input-mint"]
+        ? new PublicKey(values["input-mint"])
+        : undefined,
+    });
+
+  console.log("Limit order request:", positionRequest.toBase58());
+  return printForCosigning(instructions);
+}
+
+async function updateLimitOrder() {
+  return printForCosigning([
+    await buildInstantUpdateLimitOrderInstruction(client, {
+      ...instantSigners(),
+      positionRequest: new PublicKey(required("request")),
+      triggerPrice: toUsdc(required("price")),
+      sizeUsdDelta: optionalUsdc("size"),
+    }),
+  ]);
+}
+
+async function cancel() {
+  return send(
+    await buildClosePositionRequestInstructions(
+      client.program,
+      new PublicKey(required("request")),
+      keypair.publicKey,
+    ),
+  );
+}
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  list: listTriggerOrders,
+  "tpsl-create": createTpsl,
+  "tpsl-update": updateTpsl,
+  "limit-create": createLimitOrder,
+  "limit-update": updateLimitOrder,
+  cancel,
+};
+
+(async () => {
+  const [command] = positionals;
+  const run = COMMANDS[command];
+
+  if (!run) {
+    console.error(
+      `Unknown command: ${command ?? "(none)"}. Expected one of: ${Object.keys(COMMANDS).join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  try {
+    await run();
+  } catch (err) {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,235 @@
+import { AnchorProvider, Program, Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { IDL, type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { type Doves } from "../idl/doves-idl";
+import {
+  JLP_POOL_ACCOUNT_PUBKEY,
+  JUPITER_PERPETUALS_PROGRAM_ID,
+} from "./constants";
+import {
+  calculateBorrowFee,
+  calculateLiquidationPrice,
+  calculateOpenCloseBaseFee,
+  calculatePositionPnlAfterFees,
+  calculatePriceImpactFee,
+  toUsdValue,
+} from "./math";
+import {
+  createDovesProgram,
+  CustodyToOraclePrice,
+  DovesOraclePrice,
+  getOraclePrice,
+  toUsdcPrecision,
+} from "./oracle";
+import {
+  Custody,
+  Pool,
+  Position,
+  PositionPnlAfterFees,
+  UsdValue,
+} from "./types";
+
+// Typed wrapper around the Jupiter Perpetuals program. `Pool` and `Custody` accounts are cached
+// after the first fetch since they only change on keeper / admin updates, while `Position`
+// accounts are always fetched fresh. Pass `{ refresh: true }` (or call `clearCache`) when the
+// latest custody state matters, e.g. right before sending a trade.
+//
+// Token prices come from the Doves oracle: either the cache from a running `OraclePriceFeed`
+// (see `setOraclePriceCache`) or a one-shot `priceFeed` fetch.
+export class PerpetualsClient {
+  private pool: Pool | null = null;
+  private readonly custodies = new Map<string, Custody>();
+  private dovesProgram: Program<Doves> | null = null;
+  private oraclePrices: CustodyToOraclePrice | undefined;
+
+  constructor(
+    public readonly program: Program<Perpetuals>,
+    public readonly poolPubkey: PublicKey = JLP_POOL_ACCOUNT_PUBKEY,
+  ) {}
+
+  // The wallet is only needed to build instructions, read-only usage can rely on the throwaway default
+  static fromConnection(
+    connection: Connection,
+    wallet: Wallet = new Wallet(Keypair.generate()),
+  ) {
+    const program = new Program<Perpetuals>(
+      IDL,
+      JUPITER_PERPETUALS_PROGRAM_ID,
+      new AnchorProvider(connection, wallet, AnchorProvider.defaultOptions()),
+    );
+
+    return new PerpetualsClient(program);
+  }
+
+  get connection() {
+    return this.program.provider.connection;
+  }
+
+  setOraclePriceCache(cache: CustodyToOraclePrice) {
+    this.oraclePrices = cache;
+  }
+
+  // Defaults to the Doves program on the client's own connection, pass one explicitly when the
+  // oracle lives on a different cluster than the one the client trades on
+  setDovesProgram(dovesProgram: Program<Doves>) {
+    this.dovesProgram = dovesProgram;
+  }
+
+  clearCache() {
+    this.pool = null;
+    this.custodies.clear();
+  }
+
+  async getPool({ refresh = false }: { refresh?: boolean } = {}) {
+    if (!this.pool || refresh) {
+      this.pool = await this.program.account.pool.fetch(this.poolPubkey);
+    }
+
+    return this.pool;
+  }
+
+  async getCustody(
+    custodyPubkey: PublicKey | string,
+    { refresh = false }: { refresh?: boolean } = {},
+  ) {
+    const key = custodyPubkey.toString();
+    const cached = this.custodies.get(key);
+
+    if (cached && !refresh) return cached;
+
+    const custody = await this.program.account.custody.fetch(custodyPubkey);
+    this.custodies.set(key, custody);
+
+    return custody;
+  }
+
+  // Fetches all the uncached custodies in a single `getMultipleAccounts` call
+  async getCustodies(
+    custodyPubkeys: (PublicKey | string)[],
+    { refresh = false }: { refresh?: boolean } = {},
+  ) {
+    const missing = custodyPubkeys
+      .map((pubkey) => new PublicKey(pubkey))
+      .filter((pubkey) => refresh || !this.custodies.has(pubkey.toString()));
+
+    if (missing.length > 0) {
+      const fetched = await this.program.account.custody.fetchMultiple(missing);
+
+      fetched.forEach((custody, index) => {
+        if (!custody) {
+          throw new Error(
+            `Custody account not found: ${missing[index].toString()}`,
+          );
+        }
+
+        this.custodies.set(missing[index].toString(), custody as Custody);
+      });
+    }
+
+    return custodyPubkeys.map(
+      (pubkey) => this.custodies.get(pubkey.toString()) as Custody,
+    );
+  }
+
+  getDovesProgram() {
+    if (!this.dovesProgram) {
+      this.dovesProgram = createDovesProgram(this.connection);
+    }
+
+    return this.dovesProgram;
+  }
+
+  async getOraclePrice(
+    custodyPubkey: PublicKey | string,
+  ): Promise<DovesOraclePrice> {
+    return getOraclePrice(
+      this.getDovesProgram(),
+      custodyPubkey,
+      this.oraclePrices,
+    );
+  }
+
+  // The custody's oracle price rescaled to USDC decimals, i.e. comparable with `position.price`
+  async getTokenPrice(custodyPubkey: PublicKey | string) {
+    return toUsdcPrecision(await this.getOraclePrice(custodyPubkey));
+  }
+
+  async getPosition(positionPubkey: PublicKey | string): Promise<Position> {
+    return this.program.account.position.fetch(positionPubkey);
+  }
+
+  async getLiquidationPrice(positionPubkey: PublicKey | string) {
+    const position = await this.getPosition(positionPubkey);
+    const [custody, collateralCustody] = await this.getCustodies([
+      position.custody,
+      position.collateralCustody,
+    ]);
+
+    return toUsdValue(
+      calculateLiquidationPrice(position, custody, collateralCustody),
+    );
+  }
+
+  async getBorrowFee(
+    positionPubkey: PublicKey | string,
+    curtime: BN = new BN(Math.floor(Date.now() / 1000)),
+  ): Promise<UsdValue> {
+    const position = await this.getPosition(positionPubkey);
+    const collateralCustody = await this.getCustody(position.collateralCustody);
+
+    return toUsdValue(calculateBorrowFee(position, collateralCustody, curtime));
+  }
+
+  async getOpenCloseBaseFee(
+    tradeSizeUsd: BN,
+    custodyPubkey: PublicKey | string,
+    action: "open" | "close" = "open",
+  ): Promise<UsdValue> {
+    const custody = await this.getCustody(custodyPubkey);
+
+    return toUsdValue(calculateOpenCloseBaseFee(tradeSizeUsd, custody, action));
+  }
+
+  async getPriceImpactFee(
+    tradeSizeUsd: BN,
+    custodyPubkey: PublicKey | string,
+  ): Promise<UsdValue> {
+    const custody = await this.getCustody(custodyPubkey);
+
+    return toUsdValue(calculatePriceImpactFee(tradeSizeUsd, custody));
+  }
+
+  // PNL after the fees a full close would pay at `tokenPrice` (in USDC decimals, like
+  // `position.price`). Uses the live oracle price of the position's custody when omitted.
+  async getPositionPnl(
+    positionPubkey: PublicKey | string,
+    tokenPrice?: BN,
+    curtime: BN = new BN(Math.floor(Date.now() / 1000)),
+  ): Promise<PositionPnlAfterFees> {
+    const position = await this.getPosition(positionPubkey);
+    const [custody, collateralCustody] = await this.getCustodies([
+      position.custody,
+      position.collateralCustody,
+    ]);
+    const price = tokenPrice ?? (await this.getTokenPrice(position.custody));
+
+    const result = calculatePositionPnlAfterFees(
+      position,
+      custody,
+      collateralCustody,
+      price,
+      curtime,
+    );
+
+    return {
+      hasProfit: result.hasProfit,
+      pnl: toUsdValue(result.pnl),
+      closeFee: toUsdValue(result.closeFee),
+      priceImpactFee: toUsdValue(result.priceImpactFee),
+      borrowFee: toUsdValue(result.borrowFee),
+      totalFees: toUsdValue(result.totalFees),
+      pnlAfterFees: toUsdValue(result.pnlAfterFees),
+    };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ *  Jupiter Perpetuals – JLP pool stats.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/pool-stats-cli.ts [--format table|jsonl] [--watch] [--mode poll|subscribe]
+ *                                [--interval <seconds>] [--out <file.jsonl>]
+ *
+ *  Without `--watch` a single snapshot is printed. `--out` appends every snapshot to a JSON lines
+ *  file, building up the time series.
+ */
+
+import fs from "fs";
+import { parseArgs } from "node:util";
+import { parseChoice, parsePositiveNumber } from "../cli-options";
+import { createConnection } from "../config";
+import { PerpetualsClient } from "./perpetuals-client";
+import {
+  fetchPoolStats,
+  PoolStatsSnapshot,
+  renderPoolStatsTable,
+  toPoolStatsJsonLine,
+  watchPoolStats,
+} from "./pool-stats";
+import { config } from "./utils";
+
+const { values } = parseArgs({
+  options: {
+    format: { type: "string", default: "table" },
+    watch: { type: "boolean", default: false },
+    mode: { type: "string", default: "poll" },
+    interval: { type: "string", default: "60" },
+    out: { type: "string" },
+    rpc: { type: "string", default: config.rpcUrl },
+    cluster: { type: "string" },
+  },
+});
+
+const client = PerpetualsClient.fromConnection(
+  createConnection({ ...config, rpcUrl: values.rpc }),
+);
+
+function output(snapshot: PoolStatsSnapshot, format: "table" | "jsonl") {
+  console.log(
+    format === "jsonl"
+      ? toPoolStatsJsonLine(snapshot)
+      : renderPoolStatsTable(snapshot) + "\n",
+  );
+
+  if (values.out) {
+    fs.appendFileSync(values.out, toPoolStatsJsonLine(snapshot) + "\n");
+  }
+}
+
+(async () => {
+  const format = parseChoice(values.format, "--format", ["table", "jsonl"]);
+  const mode = parseChoice(values.mode, "--mode", ["poll", "subscribe"]);
+  const interval = parsePositiveNumber(values.interval, "--interval");
+
+  if (!values.watch) {
+    output(await fetchPoolStats(client), format);
+    process.exit(0);
+  }
+
+  const stop = watchPoolStats(client, {
+    intervalMs: interval * 1000,
+    mode,
+    onSnapshot: (snapshot) => output(snapshot, format),
+  });
+
+  process.on("SIGINT", () => {
+    stop();
+    process.exit(0);
+  });
+})().catch((err) => {
+  console.error("❌", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,309 @@
+import BN from "bn.js";
+import { getMint } from "@solana/spl-token";
+import { PublicKey } from "@solana/web3.js";
+import {
+  BPS_POWER,
+  custodySymbol,
+  JLP_MINT_PUBKEY,
+  RATE_POWER,
+  USDC_DECIMALS,
+} from "./constants";
+import { getBorrowRatePct, toUsdValue } from "./math";
+import { PerpetualsClient } from "./perpetuals-client";
+import { Custody, Pool, UsdValue } from "./types";
+
+// Point-in-time view of the JLP pool: what each custody holds, how much of it is lent out to traders
+// and what that costs, and how far each custody is from its target weight.
+//
+// A custody's contribution to the AUM is `owned * price` for stablecoins and
+// `(owned - locked) * price + guaranteedUsd` for the other tokens (the locked tokens back the longs,
+// whose USD value is tracked by `guaranteedUsd`). Traders' unrealized short PnL is left out, so the
+// weights are an approximation of the ones the program uses.
+
+export type CustodyStats = {
+  custody: string;
+  symbol: string;
+  mint: string;
+  // Token amounts in base units
+  owned: BN;
+  locked: BN;
+  price: UsdValue;
+  valueUsd: UsdValue;
+  utilizationPct: number;
+  hourlyBorrowRatePct: number;
+  targetWeightPct: number;
+  currentWeightPct: number;
+};
+
+export type PoolStatsSnapshot = {
+  // Unix timestamp (seconds)
+  timestamp: number;
+  aumUsd: UsdValue;
+  jlpSupply: BN;
+  jlpVirtualPrice: UsdValue;
+  feeAprPct: number;
+  custodies: CustodyStats[];
+};
+
+export function getUtilizationPct(custody: Custody) {
+  if (custody.assets.owned.eqn(0)) return 0;
+
+  return (
+    custody.assets.locked
+      .mul(RATE_POWER)
+      .div(custody.assets.owned)
+      .toNumber() /
+    (RATE_POWER.toNumber() / 100)
+  );
+}
+
+export function getCustodyValueUsd(custody: Custody, tokenPrice: BN) {
+  const toUsd = (amount: BN) =>
+    amount.mul(tokenPrice).div(new BN(10).pow(new BN(custody.decimals)));
+
+  if (custody.isStable) return toUsd(custody.assets.owned);
+
+  return toUsd(custody.assets.owned.sub(custody.assets.locked)).add(
+    custody.assets.guaranteedUsd,
+  );
+}
+
+// Pure snapshot from accounts the caller already holds. `tokenPrices` are in USDC decimals and keyed
+// like `custodies`, by the custody pubkey string
+export function calculatePoolStats({
+  pool,
+  custodies,
+  tokenPrices,
+  jlpSupply,
+  timestamp = Math.floor(Date.now() / 1000),
+}: {
+  pool: Pool;
+  custodies: Map<string, Custody>;
+  tokenPrices: Map<string, BN>;
+  jlpSupply: BN;
+  timestamp?: number;
+}): PoolStatsSnapshot {
+  const values = pool.custodies.map((pubkey) => {
+    const key = pubkey.toString();
+    const custody = custodies.get(key);
+    const tokenPrice = tokenPrices.get(key);
+
+    if (!custody || !tokenPrice) {
+      throw new Error(`Missing custody account or price for: ${key}`);
+    }
+
+    return {
+      key,
+      custody,
+      tokenPrice,
+      valueUsd: getCustodyValueUsd(custody, tokenPrice),
+    };
+  });
+
+  const totalValueUsd = values.reduce(
+    (total, { valueUsd }) => total.add(valueUsd),
+    new BN(0),
+  );
+
+  const custodyStats = values.map(
+    ({ key, custody, tokenPrice, valueUsd }): CustodyStats => ({
+      custody: key,
+      symbol: custodySymbol(key),
+      mint: custody.mint.toBase58(),
+      owned: custody.assets.owned,
+      locked: custody.assets.locked,
+      price: toUsdValue(tokenPrice),
+      valueUsd: toUsdValue(valueUsd),
+      utilizationPct: getUtilizationPct(custody),
+      hourlyBorrowRatePct: getBorrowRatePct(custody),
+      targetWeightPct:
+        custody.targetRatioBps.toNumber() / (BPS_POWER.toNumber() / 100),
+      currentWeightPct: totalValueUsd.eqn(0)
+        ? 0
+        : valueUsd.mul(BPS_POWER).div(totalValueUsd).toNumber() /
+          (BPS_POWER.toNumber() / 100),
+    }),
+  );
+
+  // JLP has the same 6 decimals as USDC, scale the numerator up so the quotient keeps its precision
+  const jlpVirtualPrice = jlpSupply.eqn(0)
+    ? new BN(0)
+    : pool.aumUsd.mul(new BN(10).pow(new BN(USDC_DECIMALS))).div(jlpSupply);
+
+  return {
+    timestamp,
+    aumUsd: toUsdValue(pool.aumUsd),
+    jlpSupply,
+    jlpVirtualPrice: toUsdValue(jlpVirtualPrice, USDC_DECIMALS, 4),
+    feeAprPct: pool.poolApr.feeAprBps.toNumber() / 100,
+    custodies: custodyStats,
+  };
+}
+
+export async function fetchPoolStats(client: PerpetualsClient) {
+  const pool = await client.getPool({ refresh: true });
+  const custodyAccounts = await client.getCustodies(pool.custodies, {
+    refresh: true,
+  });
+  const prices = await Promise.all(
+    pool.custodies.map((custody) => client.getTokenPrice(custody)),
+  );
+  const jlpMint = await getMint(
+    client.connection,
+    JLP_MINT_PUBKEY,
+    "confirmed",
+  );
+
+  return calculatePoolStats({
+    pool,
+    custodies: new Map(
+      pool.custodies.map((pubkey, index) => [
+        pubkey.toString(),
+        custodyAccounts[index],
+      ]),
+    ),
+    tokenPrices: new Map(
+      pool.custodies.map((pubkey, index) => [pubkey.toString(), prices[index]]),
+    ),
+    jlpSupply: new BN(jlpMint.supply.toString()),
+  });
+}
+
+// Emits a snapshot every `intervalMs`. In `subscribe` mode the pool and custody accounts are streamed
+// with `onAccountChange` instead and a snapshot is only taken when one of them changed, still at most
+// once per `intervalMs`. Returns a function that stops the watcher.
+export function watchPoolStats(
+  client: PerpetualsClient,
+  {
+    intervalMs = 60_000,
+    mode = "poll",
+    onSnapshot,
+    onError = (err) => console.error("Failed to fetch pool stats", err),
+  }: {
+    intervalMs?: number;
+    mode?: "poll" | "subscribe";
+    onSnapshot: (snapshot: PoolStatsSnapshot) => void;
+    onError?: (err: unknown) => void;
+  },
+) {
+  let stopped = false;
+  let dirty = true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const subscriptions: number[] = [];
+
+  const tick = async () => {
+    if (stopped) return;
+
+    if (mode === "poll" || dirty) {
+      dirty = false;
+
+      try {
+        onSnapshot(await fetchPoolStats(client));
+      } catch (err) {
+        onError(err);
+      }
+    }
+
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  };
+
+  if (mode === "subscribe") {
+    client
+      .getPool()
+      .then((pool) => {
+        if (stopped) return;
+
+        [client.poolPubkey, ...pool.custodies].forEach((pubkey: PublicKey) => {
+          subscriptions.push(
+            client.connection.onAccountChange(
+              pubkey,
+              () => {
+                dirty = true;
+              },
+              "confirmed",
+            ),
+          );
+        });
+      })
+      .catch(onError);
+  }
+
+  tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    subscriptions.forEach((id) =>
+      client.connection.removeAccountChangeListener(id).catch(() => {}),
+    );
+  };
+}
+
+/* Rendering */
+
+function formatPct(value: number) {
+  return `${value.toFixed(2)}%`;
+}
+
+export function renderPoolStatsTable(snapshot: PoolStatsSnapshot) {
+  const header = [
+    "Custody",
+    "Price ($)",
+    "Value ($)",
+    "Utilization",
+    "Borrow/h",
+    "Weight",
+    "Target",
+  ];
+  const rows = snapshot.custodies.map((custody) => [
+    custody.symbol,
+    custody.price.formatted,
+    custody.valueUsd.formatted,
+    formatPct(custody.utilizationPct),
+    `${custody.hourlyBorrowRatePct.toFixed(4)}%`,
+    formatPct(custody.currentWeightPct),
+    formatPct(custody.targetWeightPct),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column]),
+      )
+      .join("  ");
+
+  return [
+    `${new Date(snapshot.timestamp * 1000).toISOString()}  AUM $${snapshot.aumUsd.formatted}  JLP $${snapshot.jlpVirtualPrice.formatted}  APR ${formatPct(snapshot.feeAprPct)}`,
+    line(header),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+// One JSON object per snapshot, amounts as strings so they survive the round trip
+export function toPoolStatsJsonLine(snapshot: PoolStatsSnapshot) {
+  return JSON.stringify({
+    timestamp: snapshot.timestamp,
+    aumUsd: snapshot.aumUsd.formatted,
+    jlpSupply: snapshot.jlpSupply.toString(),
+    jlpVirtualPrice: snapshot.jlpVirtualPrice.formatted,
+    feeAprPct: snapshot.feeAprPct,
+    custodies: snapshot.custodies.map((custody) => ({
+      custody: custody.custody,
+      symbol: custody.symbol,
+      mint: custody.mint,
+      owned: custody.owned.toString(),
+      locked: custody.locked.toString(),
+      price: custody.price.formatted,
+      valueUsd: custody.valueUsd.formatted,
+      utilizationPct: custody.utilizationPct,
+      hourlyBorrowRatePct: custody.hourlyBorrowRatePct,
+      targetWeightPct: custody.targetWeightPct,
+      currentWeightPct: custody.currentWeightPct,
+    })),
+  });
+}
@@ -0,0 +1,307 @@
+import { Program } from "@coral-xyz/anchor";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  Commitment,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { type Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { sendTransactionOrThrow } from "../send-transaction";
+import { JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY } from "./constants";
+import {
+  DecodedPerpetualsEvent,
+  decodeTransactionEvents,
+  isEventOfType,
+} from "./events";
+import { PositionRequest } from "./types";
+
+// Market requests are only *requests*: the keeper picks up the `positionRequest` PDA, executes it
+// (emitting `IncreasePositionEvent` / `DecreasePositionEvent`) and closes it, or closes it without
+// executing (e.g. slippage exceeded), which emits a `ClosePositionRequestEvent` with `executed: false`.
+// https://station.jup.ag/guides/perpetual-exchange/request-fulfillment-model
+
+export type PositionRequestStatus =
+  | "executed"
+  | "closed"
+  | "timeout"
+  | "cancelled";
+
+export type PositionRequestResult = {
+  status: PositionRequestStatus;
+  positionRequest: PublicKey;
+  // Signature of the transaction that executed / closed the request, if it was seen
+  signature?: string;
+  events: DecodedPerpetualsEvent[];
+};
+
+const SETTLEMENT_EVENTS = [
+  "IncreasePositionEvent",
+  "DecreasePositionEvent",
+  "ClosePositionRequestEvent",
+] as const;
+
+export async function buildClosePositionRequestInstructions(
+  program: Program<Perpetuals>,
+  positionRequestPubkey: PublicKey,
+  payer: PublicKey,
+  request?: PositionRequest,
+): Promise<TransactionInstruction[]> {
+  const positionRequest =
+    request ??
+    (await program.account.positionRequest.fetch(positionRequestPubkey));
+
+  // The tokens held by the request (e.g. the collateral of an unexecuted increase) go back to the owner's ATA
+  const ownerAta = getAssociatedTokenAddressSync(
+    positionRequest.mint,
+    positionRequest.owner,
+  );
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    positionRequest.mint,
+    positionRequestPubkey,
+    true,
+  );
+
+  const closeIx = await program.methods
+    .closePositionRequest({})
+    .accounts({
+      keeper: null,
+      owner: positionRequest.owner,
+      ownerAta,
+      pool: positionRequest.pool,
+      positionRequest: positionRequestPubkey,
+      positionRequestAta,
+      position: positionRequest.position,
+      eventAuthority: JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+      program: program.programId,
+    })
+    .instruction();
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer,
+      ownerAta,
+      positionRequest.owner,
+      positionRequest.mint,
+    ),
+    closeIx,
+  ];
+}
+
+// Watches a single `positionRequest` PDA until the keeper executes or closes it. Account changes
+// are streamed via `onAccountChange`, the settling transaction is found via `onLogs` and its CPI
+// events are decoded so the caller gets the fill price / fees straight from the program.
+//
+// A `wait` that times out keeps the subscriptions open (the keeper may still pick the request up),
+// call `cancel` or `stop` to release them.
+export class PositionRequestTracker {
+  private accountSubscription: number | null = null;
+  private logsSubscription: number | null = null;
+  private resolve: ((result: PositionRequestResult) => void) | null = null;
+  private settled: Promise<PositionRequestResult> | null = null;
+  private cancelling = false;
+
+  constructor(
+    private readonly program: Program<Perpetuals>,
+    public readonly positionRequest: PublicKey,
+    private readonly commitment: Commitment = "confirmed",
+  ) {}
+
+  private get connection() {
+    return this.program.provider.connection;
+  }
+
+  // Resolves with `timeout` (instead of rejecting) when the keeper hasn't settled the request in
+  // `timeoutMs`, so the caller can decide whether to `cancel` it
+  async wait({ timeoutMs = 60_000 }: { timeoutMs?: number } = {}) {
+    const settled = this.start();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<PositionRequestResult>((resolve) => {
+      timer = setTimeout(
+        () =>
+          resolve({
+            status: "timeout",
+            positionRequest: this.positionRequest,
+            events: [],
+          }),
+        timeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([settled, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Closes the request onchain via `closePositionRequest`, returning the collateral to the owner
+  async cancel(owner: Keypair) {
+    this.start();
+    this.cancelling = true;
+
+    const instructions = await buildClosePositionRequestInstructions(
+      this.program,
+      this.positionRequest,
+      owner.publicKey,
+    );
+
+    try {
+      const { signature } = await sendTransactionOrThrow(
+        this.connection,
+        instructions,
+        { signers: [owner], commitment: this.commitment },
+      );
+      this.finish({ status: "cancelled", signature, events: [] });
+
+      return signature;
+    } catch (err) {
+      this.cancelling = false;
+      throw err;
+    }
+  }
+
+  // Waits for the keeper and cancels the request if it is still pending after `timeoutMs`
+  async waitOrCancel(owner: Keypair, { timeoutMs = 60_000 } = {}) {
+    const result = await this.wait({ timeoutMs });
+
+    if (result.status !== "timeout") return result;
+
+    try {
+      await this.cancel(owner);
+    } catch (err) {
+      // The keeper may have raced us and settled the request in the meantime
+      console.error("Failed to cancel position request", err);
+    }
+
+    const final = await this.wait({ timeoutMs: 10_000 });
+    this.stop();
+
+    return final;
+  }
+
+  stop() {
+    if (this.accountSubscription !== null) {
+      this.connection
+        .removeAccountChangeListener(this.accountSubscription)
+        .catch(() => {});
+      this.accountSubscription = null;
+    }
+
+    if (this.logsSubscription !== null) {
+      this.connection.removeOnLogsListener(this.logsSubscription).catch(() => {});
+      this.logsSubscription = null;
+    }
+  }
+
+  private start() {
+    if (this.settled) return this.settled;
+
+    this.settled = new Promise<PositionRequestResult>((resolve) => {
+      this.resolve = resolve;
+    });
+
+    this.accountSubscription = this.connection.onAccountChange(
+      this.positionRequest,
+      (accountInfo) => {
+        if (accountInfo.lamports === 0 || accountInfo.data.length === 0) {
+          this.onRequestClosed().catch((err) =>
+            console.error("Failed to inspect closed position request", err),
+          );
+        }
+      },
+      this.commitment,
+    );
+
+    this.logsSubscription = this.connection.onLogs(
+      this.positionRequest,
+      ({ signature, err }) => {
+        if (!err) {
+          this.inspectTransaction(signature).catch((error) =>
+            console.error(`Failed to inspect transaction ${signature}`, error),
+          );
+        }
+      },
+      this.commitment,
+    );
+
+    // The request may have been settled before we subscribed
+    this.connection
+      .getAccountInfo(this.positionRequest, this.commitment)
+      .then((accountInfo) => {
+        if (!accountInfo) return this.onRequestClosed();
+      })
+      .catch((err) =>
+        console.error("Failed to check the position request account", err),
+      );
+
+    return this.settled;
+  }
+
+  private get closedStatus(): PositionRequestStatus {
+    return this.cancelling ? "cancelled" : "closed";
+  }
+
+  private async onRequestClosed() {
+    const [latest] = await this.connection.getSignaturesForAddress(
+      this.positionRequest,
+      { limit: 1 },
+      "confirmed",
+    );
+
+    if (latest && (await this.inspectTransaction(latest.signature))) return;
+
+    // Closed but we couldn't find the settling events (e.g. the RPC hasn't indexed the transaction yet)
+    this.finish({
+      status: this.closedStatus,
+      signature: latest?.signature,
+      events: [],
+    });
+  }
+
+  private async inspectTransaction(signature: string) {
+    const tx = await this.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx) return false;
+
+    const events = decodeTransactionEvents(this.program, tx).filter(
+      ({ event }) =>
+        isEventOfType(event, ...SETTLEMENT_EVENTS) &&
+        event.data.positionRequestKey.equals(this.positionRequest),
+    );
+
+    if (events.length === 0) return false;
+
+    const executed = events.some(
+      ({ event }) =>
+        isEventOfType(event, "IncreasePositionEvent", "DecreasePositionEvent") ||
+        (isEventOfType(event, "ClosePositionRequestEvent") &&
+          event.data.executed),
+    );
+
+    this.finish({
+      status: executed ? "executed" : this.closedStatus,
+      signature,
+      events,
+    });
+
+    return true;
+  }
+
+  private finish(result: Omit<PositionRequestResult, "positionRequest">) {
+    if (!this.resolve) return;
+
+    const resolve = this.resolve;
+    this.resolve = null;
+    this.stop();
+
+    resolve({ ...result, positionRequest: this.positionRequest });
+  }
+}
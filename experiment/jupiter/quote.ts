@@ -0,0 +1,191 @@
+import { BorshAccountsCoder } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { IDL } from "../idl/jupiter-perpetuals-idl";
+import {
+  calculateBorrowFee,
+  calculateLiquidationPrice,
+  calculateOpenCloseBaseFee,
+  calculatePriceImpactFee,
+  getHourlyBorrowRate,
+  toUsdValue,
+} from "./math";
+import type { PositionSide } from "./slippage";
+import type { Custody, Position, UsdValue } from "./types";
+import { BPS_POWER, RATE_POWER, USDC_DECIMALS } from "./units";
+
+// Offline quote for a market increase request, built only from account snapshots the caller passes
+// in (no RPC), so strategy sizing can be tested against fixtures. Everything that matters lives on
+// the two custodies: fees and max leverage on the traded custody, the borrow rate on the collateral
+// custody (the one lending out the tokens).
+//
+// Jupiter fills increases at the oracle price; the open and price impact fees (plus any borrow fee
+// outstanding on an existing position) are taken out of the collateral.
+
+export type IncreaseQuote = {
+  entryPrice: UsdValue;
+  collateralUsd: UsdValue;
+  openFee: UsdValue;
+  priceImpactFee: UsdValue;
+  // Outstanding borrow fee settled by the increase, zero for new positions
+  borrowFee: UsdValue;
+  totalFees: UsdValue;
+  // Position after the increase
+  sizeUsd: UsdValue;
+  positionCollateralUsd: UsdValue;
+  leverage: number;
+  maxLeverage: number;
+  liquidationPrice: UsdValue;
+  hourlyBorrowCost: UsdValue;
+  // Reasons the program would reject the request, empty when the quote looks executable
+  errors: string[];
+};
+
+export function simulateIncreaseQuote({
+  custody,
+  collateralCustody,
+  tokenPrice,
+  collateralPrice,
+  side,
+  sizeUsdDelta,
+  collateralTokenDelta,
+  position,
+  curtime = new BN(Math.floor(Date.now() / 1000)),
+}: {
+  custody: Custody;
+  collateralCustody: Custody;
+  // Oracle price of the traded token in USDC decimals
+  tokenPrice: BN;
+  // Price of the collateral token in USDC decimals. Defaults to `tokenPrice` when the position is
+  // collateralized with the traded token itself, and to $1 for stablecoin collateral
+  collateralPrice?: BN;
+  side: PositionSide;
+  sizeUsdDelta: BN;
+  // Collateral in base units of the collateral custody's mint
+  collateralTokenDelta: BN;
+  // Existing position to increase, if any
+  position?: Position;
+  curtime?: BN;
+}): IncreaseQuote {
+  const errors: string[] = [];
+
+  const resolvedCollateralPrice =
+    collateralPrice ??
+    (collateralCustody.mint.equals(custody.mint)
+      ? tokenPrice
+      : collateralCustody.isStable
+        ? new BN(10).pow(new BN(USDC_DECIMALS))
+        : null);
+
+  if (!resolvedCollateralPrice) {
+    throw new Error("`collateralPrice` is required for this collateral custody");
+  }
+
+  const collateralUsd = collateralTokenDelta
+    .mul(resolvedCollateralPrice)
+    .div(new BN(10).pow(new BN(collateralCustody.decimals)));
+
+  const openFee = calculateOpenCloseBaseFee(sizeUsdDelta, custody, "open");
+  const priceImpactFee = calculatePriceImpactFee(sizeUsdDelta, custody);
+  const borrowFee = position
+    ? calculateBorrowFee(position, collateralCustody, curtime)
+    : new BN(0);
+  const totalFees = openFee.add(priceImpactFee).add(borrowFee);
+
+  // Merge into the existing position: sizes add up and the entry price becomes the size weighted
+  // harmonic mean of both prices (i.e. total size over total token exposure)
+  const previousSize = position?.sizeUsd ?? new BN(0);
+  const sizeUsd = previousSize.add(sizeUsdDelta);
+  const entryPrice =
+    position && previousSize.gtn(0)
+      ? sizeUsd
+          .mul(position.price)
+          .mul(tokenPrice)
+          .div(
+            previousSize.mul(tokenPrice).add(sizeUsdDelta.mul(position.price)),
+          )
+      : tokenPrice;
+
+  const positionCollateralUsd = (position?.collateralUsd ?? new BN(0))
+    .add(collateralUsd)
+    .sub(totalFees);
+
+  if (positionCollateralUsd.lten(0)) {
+    errors.push("Collateral does not cover the fees");
+  }
+
+  const leverage = positionCollateralUsd.gtn(0)
+    ? sizeUsd.mul(BPS_POWER).div(positionCollateralUsd).toNumber() /
+      BPS_POWER.toNumber()
+    : Infinity;
+  const maxLeverage =
+    custody.pricing.maxLeverage.toNumber() / BPS_POWER.toNumber();
+
+  // Already reported above when the collateral doesn't cover the fees
+  if (Number.isFinite(leverage) && leverage > maxLeverage) {
+    errors.push(`Leverage ${leverage.toFixed(2)}x exceeds ${maxLeverage}x`);
+  }
+
+  if (
+    custody.maxPositionSizeUsd.gtn(0) &&
+    sizeUsd.gt(custody.maxPositionSizeUsd)
+  ) {
+    errors.push(
+      `Position size exceeds the custody limit of $${toUsdValue(custody.maxPositionSizeUsd).formatted}`,
+    );
+  }
+
+  const quotedPosition = {
+    ...(position ?? {}),
+    side: side === "long" ? { long: {} } : { short: {} },
+    price: entryPrice,
+    sizeUsd,
+    collateralUsd: BN.max(positionCollateralUsd, new BN(0)),
+    // Borrow fees are settled by the increase, so the snapshot starts from the current rate
+    cumulativeInterestSnapshot:
+      collateralCustody.fundingRateState.cumulativeInterestRate,
+  } as Position;
+
+  const liquidationPrice = positionCollateralUsd.gtn(0)
+    ? calculateLiquidationPrice(quotedPosition, custody, collateralCustody)
+    : entryPrice;
+
+  const hourlyBorrowCost = sizeUsd
+    .mul(getHourlyBorrowRate(collateralCustody))
+    .div(RATE_POWER);
+
+  return {
+    entryPrice: toUsdValue(entryPrice),
+    collateralUsd: toUsdValue(collateralUsd),
+    openFee: toUsdValue(openFee),
+    priceImpactFee: toUsdValue(priceImpactFee),
+    borrowFee: toUsdValue(borrowFee),
+    totalFees: toUsdValue(totalFees),
+    sizeUsd: toUsdValue(sizeUsd),
+    positionCollateralUsd: toUsdValue(positionCollateralUsd),
+    leverage,
+    maxLeverage,
+    liquidationPrice: toUsdValue(liquidationPrice),
+    hourlyBorrowCost: toUsdValue(hourlyBorrowCost, USDC_DECIMALS, 4),
+    errors,
+  };
+}
+
+/* Fixtures */
+
+const accountsCoder = new BorshAccountsCoder(IDL);
+
+// Decodes a raw account snapshot (e.g. the base64 `data` of `solana account --output json`) so
+// quotes can be run against fixtures instead of a live RPC
+export function decodeCustodySnapshot(data: Buffer | string): Custody {
+  return accountsCoder.decode(
+    "custody",
+    typeof data === "string" ? Buffer.from(data, "base64") : data,
+  );
+}
+
+export function decodePositionSnapshot(data: Buffer | string): Position {
+  return accountsCoder.decode(
+    "position",
+    typeof data === "string" ? Buffer.from(data, "base64") : data,
+  );
+}
@@ -0,0 +1,69 @@
+import BN from "bn.js";
+import { PublicKey } from "@solana/web3.js";
+import { BPS_POWER } from "./constants";
+import { PerpetualsClient } from "./perpetuals-client";
+
+// `priceSlippage` on a market request is not a percentage, it is the worst price (in USDC decimals,
+// the same precision as `position.price`) the keeper is allowed to fill the request at:
+//
+// - Long increase / short decrease buy the token, so the limit sits *above* the oracle price
+// - Long decrease / short increase sell the token, so the limit sits *below* the oracle price
+//
+// https://station.jup.ag/guides/perpetual-exchange/request-fulfillment-model
+
+export type PositionSide = "long" | "short";
+export type RequestChange = "increase" | "decrease";
+
+export const DEFAULT_SLIPPAGE_BPS = 100; // 1%
+
+export function isBuyRequest(side: PositionSide, requestChange: RequestChange) {
+  return (side === "long") === (requestChange === "increase");
+}
+
+export function calculatePriceSlippage({
+  tokenPrice,
+  side,
+  requestChange,
+  slippageBps = DEFAULT_SLIPPAGE_BPS,
+}: {
+  // Oracle price in USDC decimals, see `toUsdcPrecision`
+  tokenPrice: BN;
+  side: PositionSide;
+  requestChange: RequestChange;
+  slippageBps?: number;
+}) {
+  if (slippageBps < 0 || slippageBps >= BPS_POWER.toNumber()) {
+    throw new Error(`Invalid slippage bps: ${slippageBps}`);
+  }
+
+  const multiplierBps = isBuyRequest(side, requestChange)
+    ? BPS_POWER.addn(slippageBps)
+    : BPS_POWER.subn(slippageBps);
+
+  return tokenPrice.mul(multiplierBps).div(BPS_POWER);
+}
+
+// Same as `calculatePriceSlippage` but priced off the custody's live Doves oracle price
+export async function getPriceSlippage(
+  client: PerpetualsClient,
+  {
+    custody,
+    side,
+    requestChange,
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+  }: {
+    custody: PublicKey | string;
+    side: PositionSide;
+    requestChange: RequestChange;
+    slippageBps?: number;
+  },
+) {
+  const tokenPrice = await client.getTokenPrice(custody);
+
+  return calculatePriceSlippage({
+    tokenPrice,
+    side,
+    requestChange,
+    slippageBps,
+  });
+}
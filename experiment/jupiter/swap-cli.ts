@@ -0,0 +1,186 @@
+/**
+ *  Token swaps through the best of Jupiter and Raydium.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/swap-cli.ts --in <mint|symbol> --out <mint|symbol> --amount <ui amount>
+ *                          [--exact-out] [--slippage-bps 50] [--priority-fee <micro-lamports>]
+ *                          [--venue jupiter|raydium] [--dry-run] [--keypair <file>]
+ *
+ *  `--amount` is in UI units (1.5 SOL, not lamports) of the input mint, or of the output mint with
+ *  `--exact-out`. `--dry-run` prints the quotes and the simulated balance changes without sending.
+ *  Symbols: SOL, USDC, USDT, JUP, BONK, JLP, anything else is taken as a mint address.
+ *
+ *  Accepts `--cluster <name>`, see `../config`.
+ */
+
+import BN from "bn.js";
+import { getMint } from "@solana/spl-token";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { parseArgs } from "node:util";
+import { parseChoice, parseNonNegativeInteger } from "../cli-options";
+import { createConnection } from "../config";
+import { LookupTableRegistry } from "../lookup-tables";
+import { loadWallet } from "../wallet";
+import {
+  executeSwap,
+  getSwapQuotes,
+  simulateSwap,
+  SwapQuote,
+  SwapVenue,
+} from "./swap-router";
+import { config } from "./utils";
+
+const TOKEN_SYMBOLS: Record<string, string> = {
+  SOL: "So11111111111111111111111111111111111111112",
+  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+  JUP: "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN",
+  BONK: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+  JLP: "27G8MtK7VtTcCHkpASjSDdkWWYfoqT6ggEuKidVJidD4",
+};
+
+const { values } = parseArgs({
+  options: {
+    in: { type: "string" },
+    out: { type: "string" },
+    amount: { type: "string" },
+    "exact-out": { type: "boolean", default: false },
+    "slippage-bps": { type: "string", default: "50" },
+    "priority-fee": { type: "string" },
+    venue: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+    keypair: { type: "string" },
+    cluster: { type: "string" },
+  },
+});
+
+function required(name: "in" | "out" | "amount") {
+  const value = values[name];
+  if (!value) throw new Error(`Missing --${name}`);
+  return value;
+}
+
+function resolveMint(mintOrSymbol: string) {
+  return new PublicKey(TOKEN_SYMBOLS[mintOrSymbol.toUpperCase()] ?? mintOrSymbol);
+}
+
+// String based so amounts like 0.1 don't pick up float rounding
+function toBaseUnits(uiAmount: string, decimals: number) {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(uiAmount.trim());
+
+  if (!match || uiAmount.trim() === "" || uiAmount.trim() === ".") {
+    throw new Error(`Invalid amount: ${uiAmount}`);
+  }
+
+  const [, whole, fraction = ""] = match;
+
+  if (fraction.length > decimals) {
+    throw new Error(`${uiAmount} has more than ${decimals} decimals`);
+  }
+
+  return new BN((whole || "0") + fraction.padEnd(decimals, "0"));
+}
+
+function toUiAmount(amount: BN | bigint, decimals: number) {
+  const raw = amount.toString();
+  const negative = raw.startsWith("-");
+  const digits = (negative ? raw.slice(1) : raw).padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+async function main(connection: Connection) {
+  const inputMint = resolveMint(required("in"));
+  const outputMint = resolveMint(required("out"));
+  const swapMode = values["exact-out"] ? "ExactOut" : "ExactIn";
+  const slippageBps = parseNonNegativeInteger(
+    values["slippage-bps"],
+    "--slippage-bps",
+  );
+  const priorityFeeMicroLamports =
+    values["priority-fee"] === undefined
+      ? undefined
+      : parseNonNegativeInteger(values["priority-fee"], "--priority-fee");
+  const venue =
+    values.venue === undefined
+      ? undefined
+      : parseChoice<SwapVenue>(values.venue, "--venue", ["jupiter", "raydium"]);
+
+  if (slippageBps > 10_000) {
+    throw new Error(`Invalid --slippage-bps '${slippageBps}', at most 10000`);
+  }
+
+  const [inputDecimals, outputDecimals] = await Promise.all(
+    [inputMint, outputMint].map(
+      async (mint) => (await getMint(connection, mint)).decimals,
+    ),
+  );
+
+  const { quotes, errors } = await getSwapQuotes({
+    connection,
+    inputMint,
+    outputMint,
+    amount: toBaseUnits(
+      required("amount"),
+      swapMode === "ExactIn" ? inputDecimals : outputDecimals,
+    ),
+    swapMode,
+    slippageBps,
+    venues: venue ? [venue] : undefined,
+  });
+
+  const describe = (quote: SwapQuote) =>
+    `${quote.venue.padEnd(8)} ${toUiAmount(quote.inAmount, inputDecimals)} -> ${toUiAmount(quote.outAmount, outputDecimals)}` +
+    ` (${swapMode === "ExactIn" ? "min out" : "max in"} ${toUiAmount(
+      quote.otherAmountThreshold,
+      swapMode === "ExactIn" ? outputDecimals : inputDecimals,
+    )}, price impact ${quote.priceImpactPct.toFixed(4)}%)`;
+
+  quotes.forEach((quote, index) =>
+    console.log(`${index === 0 ? "🏆" : "  "} ${describe(quote)}`),
+  );
+  errors.forEach(({ venue, error }) =>
+    console.log(`⚠️  ${venue}: ${error.message}`),
+  );
+
+  const [best] = quotes;
+
+  if (!best) throw new Error("No venue could quote this swap");
+
+  const { keypair } = loadWallet(values.keypair);
+  const lookupTables = await new LookupTableRegistry(
+    connection,
+    config.cluster,
+  ).getAll(["raydium"]);
+
+  if (values["dry-run"]) {
+    const { inputChange, outputChange, unitsConsumed } = await simulateSwap(
+      connection,
+      best,
+      keypair.publicKey,
+      { priorityFeeMicroLamports, lookupTables },
+    );
+
+    console.log(`\n🧪 simulated on ${best.venue}, ${unitsConsumed} compute units`);
+    console.log(`   ${values.in}: ${toUiAmount(inputChange, inputDecimals)}`);
+    console.log(`   ${values.out}: ${toUiAmount(outputChange, outputDecimals)}`);
+    return;
+  }
+
+  const signatures = await executeSwap(connection, best, keypair, {
+    priorityFeeMicroLamports,
+    lookupTables,
+  });
+
+  signatures.forEach((signature) => console.log("📤  sent:", signature));
+}
+
+main(createConnection(config))
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
@@ -0,0 +1,698 @@
+import BN from "bn.js";
+import {
+  Liquidity,
+  LIQUIDITY_STATE_LAYOUT_V4,
+  LiquidityPoolKeysV4,
+  Market,
+  MARKET_STATE_LAYOUT_V3,
+  Percent,
+  SPL_ACCOUNT_LAYOUT,
+  Token,
+  TokenAccount,
+  TokenAmount,
+  TxVersion,
+} from "@raydium-io/raydium-sdk";
+import {
+  AccountLayout,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PublicKey,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { compileV0Message } from "../lookup-tables";
+import { decodeTransactionError } from "../program-errors";
+import {
+  SendTransactionOptions,
+  sendTransactionOrThrow,
+  sendVersionedTransactionOrThrow,
+} from "../send-transaction";
+import { JUPITER_QUOTE_API_URL } from "./funding";
+
+// Quotes a swap on Jupiter and on Raydium's AMM v4 pools for any mint pair and picks the better one.
+//
+// Both venues quote amounts net of their trading fees and of the price impact of the trade itself, so
+// the best quote is simply the one with the largest `outAmount` (exact in) or the smallest `inAmount`
+// (exact out). Raydium pool keys are decoded from the AMM and OpenBook market accounts on chain rather
+// than taken from Raydium's API, so pools created after the API snapshot are found too.
+
+export const JUPITER_SWAP_API_URL = "https://quote-api.jup.ag/v6/swap";
+
+export const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey(
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
+);
+
+// Jupiter's naming, `ExactOut` fixes the output amount and quotes the input needed for it
+export type SwapMode = "ExactIn" | "ExactOut";
+
+export type SwapVenue = "jupiter" | "raydium";
+
+type BaseSwapQuote = {
+  swapMode: SwapMode;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  // Base units, net of fees and price impact
+  inAmount: BN;
+  outAmount: BN;
+  // Minimum output (exact in) or maximum input (exact out) once `slippageBps` is applied
+  otherAmountThreshold: BN;
+  slippageBps: number;
+  // In percent, e.g. 0.25 for 0.25%
+  priceImpactPct: number;
+};
+
+export type JupiterSwapQuote = BaseSwapQuote & {
+  venue: "jupiter";
+  // The raw quote, the swap API needs it back as is
+  quoteResponse: JupiterQuoteResponse;
+};
+
+export type RaydiumSwapQuote = BaseSwapQuote & {
+  venue: "raydium";
+  poolKeys: LiquidityPoolKeysV4;
+};
+
+export type SwapQuote = JupiterSwapQuote | RaydiumSwapQuote;
+
+// https://station.jup.ag/api-v6/get-quote
+export type JupiterQuoteResponse = {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  swapMode: SwapMode;
+  slippageBps: number;
+  // A fraction, not a percentage despite the name
+  priceImpactPct: string;
+  routePlan: {
+    swapInfo: {
+      ammKey: string;
+      label?: string;
+      feeAmount: string;
+      feeMint: string;
+    };
+    percent: number;
+  }[];
+};
+
+export type SwapQuoteParams = {
+  connection: Connection;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  // Base units of `inputMint` (exact in) or `outputMint` (exact out)
+  amount: BN;
+  swapMode?: SwapMode;
+  slippageBps: number;
+  venues?: SwapVenue[];
+  // Skips the `getProgramAccounts` scan for the pair's Raydium pools
+  raydiumPoolIds?: PublicKey[];
+};
+
+export type SwapTransactionOptions = {
+  // Compute unit price, on top of the base fee
+  priorityFeeMicroLamports?: number;
+  // E.g. the `raydium` table of `LookupTableRegistry`, for Raydium swaps (Jupiter brings its own)
+  lookupTables?: AddressLookupTableAccount[];
+};
+
+/* Jupiter */
+
+export async function quoteJupiter({
+  inputMint,
+  outputMint,
+  amount,
+  swapMode = "ExactIn",
+  slippageBps,
+}: Omit<
+  SwapQuoteParams,
+  "connection" | "venues" | "raydiumPoolIds"
+>): Promise<JupiterSwapQuote> {
+  const params = new URLSearchParams({
+    inputMint: inputMint.toBase58(),
+    outputMint: outputMint.toBase58(),
+    amount: amount.toString(),
+    swapMode,
+    slippageBps: slippageBps.toString(),
+  });
+
+  const response = await fetch(`${JUPITER_QUOTE_API_URL}?${params}`);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to get Jupiter quote: ${response.status} ${await response.text()}`,
+    );
+  }
+
+  const quoteResponse = (await response.json()) as JupiterQuoteResponse;
+
+  return {
+    venue: "jupiter",
+    swapMode,
+    inputMint,
+    outputMint,
+    inAmount: new BN(quoteResponse.inAmount),
+    outAmount: new BN(quoteResponse.outAmount),
+    otherAmountThreshold: new BN(quoteResponse.otherAmountThreshold),
+    slippageBps,
+    priceImpactPct: Number(quoteResponse.priceImpactPct) * 100,
+    quoteResponse,
+  };
+}
+
+async function buildJupiterSwapTransaction(
+  quote: JupiterSwapQuote,
+  owner: PublicKey,
+  { priorityFeeMicroLamports }: SwapTransactionOptions,
+) {
+  const response = await fetch(JUPITER_SWAP_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      quoteResponse: quote.quoteResponse,
+      userPublicKey: owner.toBase58(),
+      wrapAndUnwrapSol: true,
+      computeUnitPriceMicroLamports: priorityFeeMicroLamports,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to get Jupiter swap transaction: ${response.status} ${await response.text()}`,
+    );
+  }
+
+  const { swapTransaction } = (await response.json()) as {
+    swapTransaction?: string;
+  };
+
+  if (!swapTransaction) {
+    throw new Error("Jupiter swap response is missing `swapTransaction`");
+  }
+
+  return VersionedTransaction.deserialize(
+    Buffer.from(swapTransaction, "base64"),
+  );
+}
+
+/* Raydium AMM v4 */
+
+// The AMM account only stores the market id, the market's vaults and queues come from the OpenBook
+// (Serum v3) market account it trades against
+export function toRaydiumPoolKeys(
+  id: PublicKey,
+  ammData: Buffer,
+  marketData: Buffer,
+): LiquidityPoolKeysV4 {
+  const amm = LIQUIDITY_STATE_LAYOUT_V4.decode(ammData);
+  const market = MARKET_STATE_LAYOUT_V3.decode(marketData);
+  const baseDecimals = amm.baseDecimal.toNumber();
+
+  return {
+    id,
+    baseMint: amm.baseMint,
+    quoteMint: amm.quoteMint,
+    lpMint: amm.lpMint,
+    baseDecimals,
+    quoteDecimals: amm.quoteDecimal.toNumber(),
+    // AMM v4 LP mints always use the base mint's decimals
+    lpDecimals: baseDecimals,
+    version: 4,
+    programId: RAYDIUM_AMM_V4_PROGRAM_ID,
+    authority: Liquidity.getAssociatedAuthority({
+      programId: RAYDIUM_AMM_V4_PROGRAM_ID,
+    }).publicKey,
+    openOrders: amm.openOrders,
+    targetOrders: amm.targetOrders,
+    baseVault: amm.baseVault,
+    quoteVault: amm.quoteVault,
+    withdrawQueue: amm.withdrawQueue,
+    lpVault: amm.lpVault,
+    marketVersion: 3,
+    marketProgramId: amm.marketProgramId,
+    marketId: amm.marketId,
+    marketAuthority: Market.getAssociatedAuthority({
+      programId: amm.marketProgramId,
+      marketId: amm.marketId,
+    }).publicKey,
+    marketBaseVault: market.baseVault,
+    marketQuoteVault: market.quoteVault,
+    marketBids: market.bids,
+    marketAsks: market.asks,
+    marketEventQueue: market.eventQueue,
+    lookupTableAccount: PublicKey.default,
+  };
+}
+
+async function fetchRaydiumPoolKeysFromAccounts(
+  connection: Connection,
+  pools: { pubkey: PublicKey; data: Buffer }[],
+) {
+  const marketIds = pools.map(
+    ({ data }) => LIQUIDITY_STATE_LAYOUT_V4.decode(data).marketId,
+  );
+  const markets = await connection.getMultipleAccountsInfo(marketIds);
+
+  return pools.map(({ pubkey, data }, index) => {
+    const market = markets[index];
+
+    if (!market) {
+      throw new Error(
+        `Market ${marketIds[index].toBase58()} of Raydium pool ${pubkey.toBase58()} not found`,
+      );
+    }
+
+    return toRaydiumPoolKeys(pubkey, data, market.data);
+  });
+}
+
+export async function fetchRaydiumPoolKeys(
+  connection: Connection,
+  poolIds: PublicKey[],
+) {
+  const accounts = await connection.getMultipleAccountsInfo(poolIds);
+
+  return fetchRaydiumPoolKeysFromAccounts(
+    connection,
+    accounts.map((account, index) => {
+      if (!account || !account.owner.equals(RAYDIUM_AMM_V4_PROGRAM_ID)) {
+        throw new Error(
+          `${poolIds[index].toBase58()} is not a Raydium AMM v4 pool`,
+        );
+      }
+
+      return { pubkey: poolIds[index], data: account.data };
+    }),
+  );
+}
+
+// Every AMM v4 pool for the pair, in either base / quote order
+export async function findRaydiumPools(
+  connection: Connection,
+  mintA: PublicKey,
+  mintB: PublicKey,
+) {
+  const poolsFor = (baseMint: PublicKey, quoteMint: PublicKey) =>
+    connection.getProgramAccounts(RAYDIUM_AMM_V4_PROGRAM_ID, {
+      filters: [
+        { dataSize: LIQUIDITY_STATE_LAYOUT_V4.span },
+        {
+          memcmp: {
+            offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf("baseMint"),
+            bytes: baseMint.toBase58(),
+          },
+        },
+        {
+          memcmp: {
+            offset: LIQUIDITY_STATE_LAYOUT_V4.offsetOf("quoteMint"),
+            bytes: quoteMint.toBase58(),
+          },
+        },
+      ],
+    });
+
+  const accounts = (
+    await Promise.all([poolsFor(mintA, mintB), poolsFor(mintB, mintA)])
+  ).flat();
+
+  return fetchRaydiumPoolKeysFromAccounts(
+    connection,
+    accounts.map(({ pubkey, account }) => ({ pubkey, data: account.data })),
+  );
+}
+
+// Quotes every given pool that has swaps enabled, best first
+export async function quoteRaydium({
+  connection,
+  poolKeys,
+  inputMint,
+  outputMint,
+  amount,
+  swapMode = "ExactIn",
+  slippageBps,
+}: Omit<SwapQuoteParams, "venues" | "raydiumPoolIds"> & {
+  poolKeys: LiquidityPoolKeysV4[];
+}): Promise<RaydiumSwapQuote[]> {
+  if (poolKeys.length === 0) return [];
+
+  const poolInfos = await Liquidity.fetchMultipleInfo({
+    connection,
+    pools: poolKeys,
+  });
+  const slippage = new Percent(slippageBps, 10_000);
+
+  const quotes = poolKeys.flatMap((keys, index): RaydiumSwapQuote[] => {
+    const poolInfo = poolInfos[index];
+
+    if (!Liquidity.getEnabledFeatures(poolInfo).swap) return [];
+
+    const token = (mint: PublicKey) =>
+      new Token(
+        TOKEN_PROGRAM_ID,
+        mint,
+        mint.equals(keys.baseMint) ? keys.baseDecimals : keys.quoteDecimals,
+      );
+    const quote = { venue: "raydium" as const, swapMode, inputMint, outputMint };
+
+    if (swapMode === "ExactIn") {
+      const { amountOut, minAmountOut, priceImpact } =
+        Liquidity.computeAmountOut({
+          poolKeys: keys,
+          poolInfo,
+          amountIn: new TokenAmount(token(inputMint), amount.toString(), true),
+          currencyOut: token(outputMint),
+          slippage,
+        });
+
+      return [
+        {
+          ...quote,
+          inAmount: amount,
+          outAmount: new BN(amountOut.raw.toString()),
+          otherAmountThreshold: new BN(minAmountOut.raw.toString()),
+          slippageBps,
+          priceImpactPct: Number(priceImpact.toFixed(4)),
+          poolKeys: keys,
+        },
+      ];
+    }
+
+    const { amountIn, maxAmountIn, priceImpact } = Liquidity.computeAmountIn({
+      poolKeys: keys,
+      poolInfo,
+      amountOut: new TokenAmount(token(outputMint), amount.toString(), true),
+      currencyIn: token(inputMint),
+      slippage,
+    });
+
+    return [
+      {
+        ...quote,
+        inAmount: new BN(amountIn.raw.toString()),
+        outAmount: amount,
+        otherAmountThreshold: new BN(maxAmountIn.raw.toString()),
+        slippageBps,
+        priceImpactPct: Number(priceImpact.toFixed(4)),
+        poolKeys: keys,
+      },
+    ];
+  });
+
+  return quotes.sort(compareQuotes);
+}
+
+async function fetchTokenAccounts(
+  connection: Connection,
+  owner: PublicKey,
+): Promise<TokenAccount[]> {
+  const { value } = await connection.getTokenAccountsByOwner(owner, {
+    programId: TOKEN_PROGRAM_ID,
+  });
+
+  return value.map(({ pubkey, account }) => ({
+    pubkey,
+    programId: account.owner,
+    accountInfo: SPL_ACCOUNT_LAYOUT.decode(account.data),
+  }));
+}
+
+// The SDK splits a swap in one or more transactions, each with the extra signers it needs
+async function makeRaydiumSwapInstructions(
+  connection: Connection,
+  quote: RaydiumSwapQuote,
+  owner: PublicKey,
+  { priorityFeeMicroLamports }: SwapTransactionOptions,
+) {
+  const { poolKeys } = quote;
+  const token = (mint: PublicKey) =>
+    new Token(
+      TOKEN_PROGRAM_ID,
+      mint,
+      mint.equals(poolKeys.baseMint)
+        ? poolKeys.baseDecimals
+        : poolKeys.quoteDecimals,
+    );
+  const exactIn = quote.swapMode === "ExactIn";
+
+  // The fixed side is exact, the other side is the slippage bound
+  const { innerTransactions } = await Liquidity.makeSwapInstructionSimple({
+    connection,
+    poolKeys,
+    userKeys: {
+      tokenAccounts: await fetchTokenAccounts(connection, owner),
+      owner,
+    },
+    amountIn: new TokenAmount(
+      token(quote.inputMint),
+      (exactIn ? quote.inAmount : quote.otherAmountThreshold).toString(),
+      true,
+    ),
+    amountOut: new TokenAmount(
+      token(quote.outputMint),
+      (exactIn ? quote.otherAmountThreshold : quote.outAmount).toString(),
+      true,
+    ),
+    fixedSide: exactIn ? "in" : "out",
+    makeTxVersion: TxVersion.V0,
+    computeBudgetConfig:
+      priorityFeeMicroLamports === undefined
+        ? undefined
+        : { microLamports: priorityFeeMicroLamports },
+  });
+
+  return innerTransactions;
+}
+
+async function buildRaydiumSwapTransactions(
+  connection: Connection,
+  quote: RaydiumSwapQuote,
+  owner: PublicKey,
+  options: SwapTransactionOptions,
+) {
+  const innerTransactions = await makeRaydiumSwapInstructions(
+    connection,
+    quote,
+    owner,
+    options,
+  );
+  const { blockhash } = await connection.getLatestBlockhash();
+
+  return innerTransactions.map(({ instructions, signers }) => {
+    const transaction = new VersionedTransaction(
+      compileV0Message(
+        { payerKey: owner, recentBlockhash: blockhash, instructions },
+        options.lookupTables,
+      ),
+    );
+
+    // Extra signers, such as the temporary account the SDK wraps SOL in
+    if (signers.length > 0) transaction.sign(signers);
+
+    return transaction;
+  });
+}
+
+/* Routing */
+
+// Negative when `a` is the better quote: more out for exact in, less in for exact out
+export function compareQuotes(a: SwapQuote, b: SwapQuote) {
+  return a.swapMode === "ExactIn"
+    ? b.outAmount.cmp(a.outAmount)
+    : a.inAmount.cmp(b.inAmount);
+}
+
+// Quotes every venue, a venue that fails (no route, no pool, API down) is reported in `errors`
+export async function getSwapQuotes({
+  venues = ["jupiter", "raydium"],
+  raydiumPoolIds,
+  ...params
+}: SwapQuoteParams) {
+  const quoteVenue = async (venue: SwapVenue): Promise<SwapQuote[]> => {
+    if (venue === "jupiter") return [await quoteJupiter(params)];
+
+    const poolKeys = raydiumPoolIds
+      ? await fetchRaydiumPoolKeys(params.connection, raydiumPoolIds)
+      : await findRaydiumPools(
+          params.connection,
+          params.inputMint,
+          params.outputMint,
+        );
+
+    if (poolKeys.length === 0) {
+      throw new Error(
+        `No Raydium AMM v4 pool for ${params.inputMint.toBase58()} / ${params.outputMint.toBase58()}`,
+      );
+    }
+
+    return quoteRaydium({ ...params, poolKeys });
+  };
+
+  const results = await Promise.allSettled(venues.map(quoteVenue));
+  const quotes: SwapQuote[] = [];
+  const errors: { venue: SwapVenue; error: Error }[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      quotes.push(...result.value);
+    } else {
+      errors.push({ venue: venues[index], error: result.reason });
+    }
+  });
+
+  return { quotes: quotes.sort(compareQuotes), errors };
+}
+
+export async function getBestSwapQuote(params: SwapQuoteParams) {
+  const { quotes, errors } = await getSwapQuotes(params);
+
+  if (quotes.length === 0) {
+    throw new Error(
+      `No swap quote: ${errors.map(({ venue, error }) => `${venue}: ${error.message}`).join("; ")}`,
+    );
+  }
+
+  return { best: quotes[0], quotes, errors };
+}
+
+// Unsigned by `owner`, Raydium swaps that wrap SOL are already signed by their temporary accounts
+export async function buildSwapTransactions(
+  connection: Connection,
+  quote: SwapQuote,
+  owner: PublicKey,
+  options: SwapTransactionOptions = {},
+): Promise<VersionedTransaction[]> {
+  return quote.venue === "jupiter"
+    ? [await buildJupiterSwapTransaction(quote, owner, options)]
+    : buildRaydiumSwapTransactions(connection, quote, owner, options);
+}
+
+// Sent through the shared sender, which sizes the compute budget and estimates the priority fee
+// unless `priorityFeeMicroLamports` is given. Raydium swaps split in several transactions are
+// sent one after the other, each confirmed before the next. Throws on the first that fails.
+export async function executeSwap(
+  connection: Connection,
+  quote: SwapQuote,
+  payer: Keypair,
+  options: SwapTransactionOptions = {},
+) {
+  const sendOptions: SendTransactionOptions = {
+    signers: [payer],
+    lookupTables: options.lookupTables,
+    priorityFee:
+      options.priorityFeeMicroLamports === undefined
+        ? undefined
+        : { microLamports: options.priorityFeeMicroLamports },
+  };
+
+  if (quote.venue === "jupiter") {
+    const { signature } = await sendVersionedTransactionOrThrow(
+      connection,
+      await buildJupiterSwapTransaction(quote, payer.publicKey, options),
+      sendOptions,
+    );
+
+    return [signature];
+  }
+
+  const signatures: string[] = [];
+
+  for (const { instructions, signers } of await makeRaydiumSwapInstructions(
+    connection,
+    quote,
+    payer.publicKey,
+    options,
+  )) {
+    const { signature } = await sendTransactionOrThrow(
+      connection,
+      instructions,
+      { ...sendOptions, signers: [payer, ...signers] },
+    );
+
+    signatures.push(signature);
+  }
+
+  return signatures;
+}
+
+// Owner balance of `mint` in base units: lamports for native SOL, the ATA's amount otherwise
+function readBalance(
+  mint: PublicKey,
+  account: { lamports: number; data: Buffer } | null,
+) {
+  if (!account) return 0n;
+  if (mint.equals(NATIVE_MINT)) return BigInt(account.lamports);
+
+  return AccountLayout.decode(account.data).amount;
+}
+
+// Simulates the swap transactions and diffs the owner's input / output balances before and after.
+// Native SOL is tracked as the wallet's lamports, so its change includes the transaction fees. When
+// a swap takes several transactions each one is simulated against the current state, not the
+// previous one's result.
+export async function simulateSwap(
+  connection: Connection,
+  quote: SwapQuote,
+  owner: PublicKey,
+  options?: SwapTransactionOptions,
+) {
+  const mints = [quote.inputMint, quote.outputMint];
+  const addresses = mints.map((mint) =>
+    mint.equals(NATIVE_MINT)
+      ? owner
+      : getAssociatedTokenAddressSync(mint, owner, true),
+  );
+  const before = await connection.getMultipleAccountsInfo(addresses);
+  const changes = mints.map(() => 0n);
+  const logs: string[] = [];
+  let unitsConsumed = 0;
+
+  for (const transaction of await buildSwapTransactions(
+    connection,
+    quote,
+    owner,
+    options,
+  )) {
+    const { value } = await connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: addresses.map((address) => address.toBase58()),
+      },
+    });
+
+    logs.push(...(value.logs ?? []));
+
+    if (value.err) {
+      const error = decodeTransactionError(value.err, { logs: value.logs ?? [] });
+
+      throw new Error(
+        `Swap simulation failed: ${error.message}\n${error.logs.join("\n")}`,
+      );
+    }
+
+    unitsConsumed += value.unitsConsumed ?? 0;
+    value.accounts?.forEach((account, index) => {
+      const after = account && {
+        lamports: account.lamports,
+        data: Buffer.from(account.data[0], "base64"),
+      };
+
+      changes[index] +=
+        readBalance(mints[index], after) -
+        readBalance(mints[index], before[index]);
+    });
+  }
+
+  return {
+    inputChange: changes[0],
+    outputChange: changes[1],
+    unitsConsumed,
+    logs,
+  };
+}
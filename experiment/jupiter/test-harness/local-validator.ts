@@ -0,0 +1,121 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { ChildProcess, spawn } from "child_process";
+import { MAINNET_RPC_URL } from "../utils";
+
+// Thin wrapper around `solana-test-validator` (needs the Solana CLI in `PATH`). Programs are loaded
+// from local `.so` files and `accounts` from `solana account --output json` files at genesis,
+// `clone` accounts are fetched from `cloneUrl` when the validator boots.
+
+export type LocalValidator = {
+  connection: Connection;
+  rpcUrl: string;
+  stop: () => Promise<void>;
+};
+
+export async function startLocalValidator({
+  programs = [],
+  accounts = [],
+  clone = [],
+  cloneUrl = MAINNET_RPC_URL,
+  ledgerDir = ".test-ledger",
+  rpcPort = 8899,
+  readyTimeoutMs = 120_000,
+}: {
+  programs?: { programId: PublicKey; soPath: string; upgradeAuthority: PublicKey }[];
+  accounts?: { pubkey: PublicKey; file: string }[];
+  clone?: PublicKey[];
+  cloneUrl?: string;
+  ledgerDir?: string;
+  rpcPort?: number;
+  readyTimeoutMs?: number;
+}): Promise<LocalValidator> {
+  const args = [
+    "--reset",
+    "--quiet",
+    "--ledger",
+    ledgerDir,
+    "--rpc-port",
+    rpcPort.toString(),
+    ...programs.flatMap(({ programId, soPath, upgradeAuthority }) => [
+      "--upgradeable-program",
+      programId.toBase58(),
+      soPath,
+      upgradeAuthority.toBase58(),
+    ]),
+    ...accounts.flatMap(({ pubkey, file }) => [
+      "--account",
+      pubkey.toBase58(),
+      file,
+    ]),
+  ];
+
+  if (clone.length > 0) {
+    args.push(
+      "--url",
+      cloneUrl,
+      ...[...new Set(clone.map((pubkey) => pubkey.toBase58()))].flatMap(
+        (pubkey) => ["--clone", pubkey],
+      ),
+    );
+  }
+
+  const child = spawn("solana-test-validator", args, {
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+
+  let stderr = "";
+  child.stderr?.on("data", (chunk) => (stderr += chunk.toString()));
+
+  const rpcUrl = `http://127.0.0.1:${rpcPort}`;
+  const connection = new Connection(rpcUrl, "confirmed");
+  const stop = () => stopProcess(child);
+
+  try {
+    await waitUntilReady(connection, child, readyTimeoutMs);
+  } catch (err) {
+    await stop();
+    throw new Error(
+      `${err instanceof Error ? err.message : err}${stderr ? `\n${stderr}` : ""}`,
+    );
+  }
+
+  return { connection, rpcUrl, stop };
+}
+
+async function waitUntilReady(
+  connection: Connection,
+  child: ChildProcess,
+  timeoutMs: number,
+) {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(
+        `solana-test-validator exited with code ${child.exitCode}`,
+      );
+    }
+
+    try {
+      // The validator answers RPC calls before it produces blocks, wait for the first slot
+      if ((await connection.getSlot()) > 0) return;
+    } catch {
+      // Not listening yet
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  throw new Error(`solana-test-validator not ready after ${timeoutMs}ms`);
+}
+
+function stopProcess(child: ChildProcess) {
+  return new Promise<void>((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return resolve();
+    }
+
+    child.once("exit", () => resolve());
+    child.kill("SIGTERM");
+  });
+}
@@ -0,0 +1,104 @@
+// End to end cases against the local deployment of `perps-test-env`, shared by `run-perps-e2e.ts`
+// and `jupiter/test/perps-e2e.test.ts`.
+//
+// They cover the request lifecycle the owner controls on its own: opening a market increase request
+// with `buildOpenPositionRequest` and cancelling it with `PositionRequestTracker`. Executing the
+// request (and hence anything that needs an open position, like closes or TP / SL) needs a keeper
+// and is out of scope.
+
+import BN from "bn.js";
+import { getAssociatedTokenAddressSync, NATIVE_MINT } from "@solana/spl-token";
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import assert from "node:assert/strict";
+import { CUSTODY_PUBKEY } from "../constants";
+import {
+  buildClosePositionRequest,
+  buildOpenPositionRequest,
+} from "../market-requests";
+import { PositionRequestTracker } from "../position-request-tracker";
+import type { PerpsTestEnv } from "./perps-test-env";
+
+const SOL_CUSTODY = new PublicKey(CUSTODY_PUBKEY.SOL);
+
+async function getSolBalance(env: PerpsTestEnv, owner: PublicKey) {
+  const wsolAta = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+  const [lamports, wsol] = await Promise.all([
+    env.connection.getBalance(owner),
+    env.connection.getAccountInfo(wsolAta),
+  ]);
+
+  // A leftover wSOL account counts with its full lamports (rent + wrapped SOL)
+  return lamports + (wsol?.lamports ?? 0);
+}
+
+export async function openAndCancelRequest(env: PerpsTestEnv) {
+  const trader = Keypair.generate();
+  await env.airdrop(trader.publicKey, 5);
+
+  const sizeUsdDelta = new BN(10_000_000); // $10
+  const collateralTokenDelta = new BN(0.1 * LAMPORTS_PER_SOL);
+  const balanceBefore = await getSolBalance(env, trader.publicKey);
+
+  const { instructions, position, positionRequest } =
+    await buildOpenPositionRequest(env.client, {
+      owner: trader.publicKey,
+      custody: SOL_CUSTODY,
+      collateralCustody: SOL_CUSTODY,
+      side: "long",
+      sizeUsdDelta,
+      collateralTokenDelta,
+    });
+
+  await env.sendInstructions(instructions, [trader]);
+
+  const request =
+    await env.client.program.account.positionRequest.fetch(positionRequest);
+
+  assert.ok(request.owner.equals(trader.publicKey));
+  assert.ok(request.position.equals(position));
+  assert.ok(request.custody.equals(SOL_CUSTODY));
+  assert.ok(request.mint.equals(NATIVE_MINT));
+  assert.ok(request.sizeUsdDelta.eq(sizeUsdDelta));
+  assert.ok(request.collateralDelta.eq(collateralTokenDelta));
+  assert.deepEqual(request.side, { long: {} });
+  assert.deepEqual(request.requestChange, { increase: {} });
+  assert.deepEqual(request.requestType, { market: {} });
+  assert.equal(request.executed, false);
+
+  const escrow = await env.connection.getTokenAccountBalance(
+    getAssociatedTokenAddressSync(NATIVE_MINT, positionRequest, true),
+  );
+  assert.equal(escrow.value.amount, collateralTokenDelta.toString());
+
+  const tracker = new PositionRequestTracker(
+    env.client.program,
+    positionRequest,
+  );
+
+  // Nobody executes requests on the local cluster
+  assert.equal((await tracker.wait({ timeoutMs: 2_000 })).status, "timeout");
+
+  await tracker.cancel(trader);
+  assert.equal((await tracker.wait({ timeoutMs: 10_000 })).status, "cancelled");
+  tracker.stop();
+
+  assert.equal(await env.connection.getAccountInfo(positionRequest), null);
+
+  // Only the transaction fees are lost, the rent of the request accounts is refunded
+  const balanceAfter = await getSolBalance(env, trader.publicKey);
+  assert.ok(
+    balanceBefore - balanceAfter < 0.001 * LAMPORTS_PER_SOL,
+    `Lost ${(balanceBefore - balanceAfter) / LAMPORTS_PER_SOL} SOL`,
+  );
+
+  // The request never executed, so there is no position to close
+  await assert.rejects(
+    buildClosePositionRequest(env.client, {
+      owner: trader.publicKey,
+      positionPubkey: position,
+    }),
+  );
+}
+
+export const PERPS_E2E_CASES: [string, (env: PerpsTestEnv) => Promise<void>][] =
+  [["open and cancel a market increase request", openAndCancelRequest]];
@@ -0,0 +1,336 @@
+import { Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Signer,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { decodeTransactionError } from "../../program-errors";
+import {
+  CUSTODY_PUBKEY,
+  JLP_MINT_PUBKEY,
+  JUPITER_PERPETUALS_PROGRAM_ID,
+  JUPITER_PERPETUALS_PUBKEY,
+} from "../constants";
+import { PerpetualsClient } from "../perpetuals-client";
+import { __dirname, MAINNET_RPC_URL } from "../utils";
+import { startLocalValidator } from "./local-validator";
+
+// Local Jupiter Perpetuals deployment: the dumped program binary (`dump/jup-perp.so`, see
+// `dump/jup-perp.json` for the program account it came from) is loaded with a throwaway upgrade
+// authority, and the JLP pool with everything it references (custodies, their token accounts, mints
+// and Doves / pythnet price accounts) is loaded from the snapshots in `test-harness/fixtures`, so
+// a run needs no RPC access. `updatePerpsFixtures` refreshes the snapshots, and `sourceUrl` clones
+// the live accounts at boot instead.
+//
+// The global `perpetuals` account is either loaded as well (`perpetualsState: "clone"`, mainnet
+// permissions and admin) or created with `testInit` (`"test-init"`), which makes the upgrade
+// authority the admin and enables `setTestTime` to pin the program clock to the oracle timestamps.
+// `test-init` only works if the binary was built with the program's test instructions enabled.
+//
+// There is no keeper on the local cluster, so position requests are created and can be cancelled
+// but never executed.
+
+export const PERPS_PROGRAM_SO_PATH = path.join(
+  __dirname,
+  "..",
+  "dump",
+  "jup-perp.so",
+);
+
+export const PERPS_FIXTURES_DIR = path.join(
+  __dirname,
+  "test-harness",
+  "fixtures",
+);
+
+const TRANSFER_AUTHORITY_PUBKEY = PublicKey.findProgramAddressSync(
+  [Buffer.from("transfer_authority")],
+  JUPITER_PERPETUALS_PROGRAM_ID,
+)[0];
+
+export type PerpsTestEnv = Awaited<ReturnType<typeof startPerpsTestEnv>>;
+
+// Everything the pool needs to be usable locally, read from `connection`
+async function collectPoolAccounts(connection: Connection) {
+  const client = PerpetualsClient.fromConnection(connection);
+  const pool = await client.getPool();
+  const custodies = await client.getCustodies(pool.custodies);
+
+  return [
+    client.poolPubkey,
+    JLP_MINT_PUBKEY,
+    ...pool.custodies,
+    ...custodies.flatMap((custody) => [
+      custody.tokenAccount,
+      custody.dovesOracle,
+      custody.dovesAgOracle,
+      custody.oracle.oracleAccount,
+      // The native mint is a builtin of the validator
+      ...(custody.mint.equals(NATIVE_MINT) ? [] : [custody.mint]),
+    ]),
+  ];
+}
+
+// Snapshots the pool accounts and the global `perpetuals` account from `sourceUrl` into
+// `fixturesDir`, one `<pubkey>.json` per account in the `solana account --output json` shape
+export async function updatePerpsFixtures(
+  sourceUrl = MAINNET_RPC_URL,
+  fixturesDir = PERPS_FIXTURES_DIR,
+) {
+  const connection = new Connection(sourceUrl, "confirmed");
+  const pubkeys = [
+    ...new Map(
+      [
+        ...(await collectPoolAccounts(connection)),
+        JUPITER_PERPETUALS_PUBKEY,
+      ].map((pubkey) => [pubkey.toBase58(), pubkey]),
+    ).values(),
+  ];
+  const accounts = await connection.getMultipleAccountsInfo(pubkeys);
+
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+  fs.mkdirSync(fixturesDir, { recursive: true });
+
+  pubkeys.forEach((pubkey, i) => {
+    const account = accounts[i];
+
+    if (!account) {
+      throw new Error(`Account ${pubkey.toBase58()} not found on ${sourceUrl}`);
+    }
+
+    const fixture = {
+      pubkey: pubkey.toBase58(),
+      account: {
+        lamports: account.lamports,
+        data: [account.data.toString("base64"), "base64"],
+        owner: account.owner.toBase58(),
+        executable: account.executable,
+        // Rent-exempt accounts report u64::MAX, which does not survive a JS number
+        rentEpoch: 0,
+        space: account.data.length,
+      },
+    };
+
+    fs.writeFileSync(
+      path.join(fixturesDir, `${fixture.pubkey}.json`),
+      JSON.stringify(fixture, null, 2) + "\n",
+    );
+  });
+
+  return pubkeys;
+}
+
+function loadPerpsFixtures(fixturesDir: string) {
+  const files = fs.existsSync(fixturesDir)
+    ? fs.readdirSync(fixturesDir).filter((file) => file.endsWith(".json"))
+    : [];
+
+  if (files.length === 0) {
+    throw new Error(
+      `No account fixtures in ${fixturesDir}, run \`yarn test:perps --update-fixtures\``,
+    );
+  }
+
+  return files.map((file) => ({
+    pubkey: new PublicKey(path.basename(file, ".json")),
+    file: path.join(fixturesDir, file),
+  }));
+}
+
+// Why the local deployment can't start on this machine, empty when it can
+export function missingPerpsTestPrerequisites({
+  soPath = PERPS_PROGRAM_SO_PATH,
+  fixturesDir = PERPS_FIXTURES_DIR,
+}: { soPath?: string; fixturesDir?: string } = {}) {
+  const missing: string[] = [];
+
+  if (spawnSync("solana-test-validator", ["--version"]).error) {
+    missing.push("solana-test-validator is not in PATH");
+  }
+  if (!fs.existsSync(soPath)) {
+    missing.push(`${soPath} is missing`);
+  }
+  if (!fs.existsSync(fixturesDir)) {
+    missing.push(`${fixturesDir} is missing`);
+  }
+
+  return missing;
+}
+
+export async function startPerpsTestEnv({
+  soPath = PERPS_PROGRAM_SO_PATH,
+  perpetualsState = "clone",
+  fixturesDir = PERPS_FIXTURES_DIR,
+  sourceUrl,
+  ledgerDir,
+  rpcPort,
+}: {
+  soPath?: string;
+  perpetualsState?: "clone" | "test-init";
+  fixturesDir?: string;
+  // Clone the accounts from this cluster instead of loading the fixtures
+  sourceUrl?: string;
+  ledgerDir?: string;
+  rpcPort?: number;
+} = {}) {
+  const authority = Keypair.generate();
+  // `testInit` creates the `perpetuals` account, so it must not exist at genesis
+  const keep = (pubkey: PublicKey) =>
+    perpetualsState === "clone" || !pubkey.equals(JUPITER_PERPETUALS_PUBKEY);
+
+  const clone = sourceUrl
+    ? [
+        ...(await collectPoolAccounts(new Connection(sourceUrl, "confirmed"))),
+        JUPITER_PERPETUALS_PUBKEY,
+      ].filter(keep)
+    : [];
+  const accounts = sourceUrl
+    ? []
+    : loadPerpsFixtures(fixturesDir).filter(({ pubkey }) => keep(pubkey));
+
+  const validator = await startLocalValidator({
+    programs: [
+      {
+        programId: JUPITER_PERPETUALS_PROGRAM_ID,
+        soPath,
+        upgradeAuthority: authority.publicKey,
+      },
+    ],
+    accounts,
+    clone,
+    cloneUrl: sourceUrl,
+    ledgerDir,
+    rpcPort,
+  });
+
+  const { connection } = validator;
+  const client = PerpetualsClient.fromConnection(
+    connection,
+    new Wallet(authority),
+  );
+
+  const airdrop = async (pubkey: PublicKey, sol: number) => {
+    const signature = await connection.requestAirdrop(
+      pubkey,
+      sol * LAMPORTS_PER_SOL,
+    );
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash();
+
+    await connection.confirmTransaction(
+      { signature, blockhash, lastValidBlockHeight },
+      "confirmed",
+    );
+  };
+
+  // Sends a v0 transaction paid by the first signer and throws with the program logs on failure
+  const sendInstructions = async (
+    instructions: TransactionInstruction[],
+    signers: Signer[],
+  ) => {
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash();
+    const tx = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: signers[0].publicKey,
+        recentBlockhash: blockhash,
+        instructions,
+      }).compileToV0Message(),
+    );
+
+    tx.sign(signers);
+
+    const signature = await connection.sendTransaction(tx, {
+      skipPreflight: true,
+    });
+    const { value } = await connection.confirmTransaction(
+      { signature, blockhash, lastValidBlockHeight },
+      "confirmed",
+    );
+
+    if (value.err) {
+      const result = await connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+
+      const error = decodeTransactionError(value.err, {
+        logs: result?.meta?.logMessages ?? [],
+        instructions,
+      });
+
+      throw new Error(
+        `Transaction ${signature} failed: ${error.message}\n${error.logs.join("\n")}`,
+      );
+    }
+
+    return signature;
+  };
+
+  // Pins the program clock (test builds only), defaults to the SOL oracle's publish time so the
+  // snapshotted prices are never stale
+  const setTestTime = async (time?: number) => {
+    const timestamp =
+      time ?? (await client.getOraclePrice(CUSTODY_PUBKEY.SOL)).timestamp;
+    const ix = await client.program.methods
+      .setTestTime({ time: new BN(timestamp) })
+      .accounts({
+        admin: authority.publicKey,
+        perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      })
+      .instruction();
+
+    return sendInstructions([ix], [authority]);
+  };
+
+  try {
+    await airdrop(authority.publicKey, 100);
+
+    if (perpetualsState === "test-init") {
+      const ix = await client.program.methods
+        .testInit({
+          allowSwap: true,
+          allowAddLiquidity: true,
+          allowRemoveLiquidity: true,
+          allowIncreasePosition: true,
+          allowDecreasePosition: true,
+          allowCollateralWithdrawal: true,
+          allowLiquidatePosition: true,
+        })
+        .accounts({
+          upgradeAuthority: authority.publicKey,
+          admin: authority.publicKey,
+          transferAuthority: TRANSFER_AUTHORITY_PUBKEY,
+          perpetuals: JUPITER_PERPETUALS_PUBKEY,
+        })
+        .instruction();
+
+      await sendInstructions([ix], [authority]);
+      await setTestTime();
+    }
+  } catch (err) {
+    await validator.stop();
+    throw err;
+  }
+
+  return {
+    connection,
+    client,
+    // Upgrade authority, funded with 100 SOL, and the admin in `test-init` mode
+    authority,
+    airdrop,
+    sendInstructions,
+    setTestTime,
+    stop: validator.stop,
+  };
+}
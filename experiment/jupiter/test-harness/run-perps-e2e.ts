@@ -0,0 +1,73 @@
+/**
+ *  Jupiter Perpetuals – end to end checks against a local validator.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/test-harness/run-perps-e2e.ts [--perpetuals clone|test-init] [--source <rpc url>]
+ *  tsx jupiter/test-harness/run-perps-e2e.ts --update-fixtures [--source <rpc url>]
+ *
+ *  Needs `solana-test-validator` in `PATH` and the program binary in `dump/jup-perp.so`
+ *  (`solana program dump PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu dump/jup-perp.so`). The pool
+ *  accounts are loaded from `jupiter/test-harness/fixtures`, or cloned from `--source` when given.
+ *
+ *  `--update-fixtures` snapshots the pool accounts from `--source` (mainnet by default) into the
+ *  fixtures and exits, commit the result. `yarn test` runs the same cases (`perps-e2e-cases.ts`)
+ *  on the fixtures.
+ */
+
+import { parseArgs } from "node:util";
+import { parseChoice } from "../../cli-options";
+import { describeThrownError } from "../../program-errors";
+import { MAINNET_RPC_URL } from "../utils";
+import { PERPS_E2E_CASES } from "./perps-e2e-cases";
+import {
+  PerpsTestEnv,
+  startPerpsTestEnv,
+  updatePerpsFixtures,
+} from "./perps-test-env";
+
+// Set once the validator is up, so a crash outside the cases still stops it
+let env: PerpsTestEnv | undefined;
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      perpetuals: { type: "string", default: "clone" },
+      source: { type: "string" },
+      "update-fixtures": { type: "boolean", default: false },
+    },
+  });
+
+  if (values["update-fixtures"]) {
+    const pubkeys = await updatePerpsFixtures(values.source ?? MAINNET_RPC_URL);
+    console.log(`✅ Wrote ${pubkeys.length} account fixtures`);
+    return;
+  }
+
+  const perpetualsState = parseChoice(values.perpetuals, "--perpetuals", [
+    "clone",
+    "test-init",
+  ]);
+
+  console.log("Starting local validator...");
+  env = await startPerpsTestEnv({ perpetualsState, sourceUrl: values.source });
+
+  let failed = 0;
+
+  for (const [name, run] of PERPS_E2E_CASES) {
+    try {
+      await run(env);
+      console.log(`✅ ${name}`);
+    } catch (err) {
+      failed++;
+      console.error(`❌ ${name}\n`, describeThrownError(err) ?? err);
+    }
+  }
+
+  await env.stop();
+  process.exit(failed > 0 ? 1 : 0);
+})().catch(async (err) => {
+  console.error("❌", describeThrownError(err) ?? err);
+  await env?.stop();
+  process.exit(1);
+});
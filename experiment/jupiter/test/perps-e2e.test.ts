@@ -0,0 +1,37 @@
+/**
+ *  `perps-e2e-cases.ts` against the local deployment of `perps-test-env`, with the pool accounts
+ *  loaded from `jupiter/test-harness/fixtures`.
+ *
+ *  Skipped when `solana-test-validator`, `dump/jup-perp.so` or the fixtures are missing, see
+ *  `run-perps-e2e.ts` for how to get them.
+ */
+
+import { after, before, describe, test } from "node:test";
+import { PERPS_E2E_CASES } from "../test-harness/perps-e2e-cases";
+import {
+  missingPerpsTestPrerequisites,
+  PerpsTestEnv,
+  startPerpsTestEnv,
+} from "../test-harness/perps-test-env";
+
+const missing = missingPerpsTestPrerequisites();
+
+describe(
+  "perps requests on a local validator",
+  { skip: missing.length > 0 && missing.join(", ") },
+  () => {
+    let env: PerpsTestEnv | undefined;
+
+    before(async () => {
+      env = await startPerpsTestEnv();
+    });
+
+    after(async () => {
+      await env?.stop();
+    });
+
+    for (const [name, run] of PERPS_E2E_CASES) {
+      test(name, () => run(env!));
+    }
+  },
+);
@@ -0,0 +1,129 @@
+/**
+ *  `simulateIncreaseQuote` against custody snapshots.
+ *
+ *  The fixtures are in the `solana account --output json` shape, but their values are
+ *  representative rather than captured from mainnet (fees, max leverage, jump rate and utilization
+ *  of the SOL and USDC custodies), so the expected numbers below can be worked out by hand.
+ *
+ *  SOL custody: 6 bps open / close fee, $1.25B impact fee scalar, 100x max leverage, 30%
+ *  utilization. USDC custody: 60% utilization. Both: 5% min, 15% target (at 80% utilization) rate.
+ */
+
+import BN from "bn.js";
+import fs from "fs";
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, test } from "node:test";
+import { fileURLToPath } from "url";
+import { decodeCustodySnapshot, simulateIncreaseQuote } from "../quote";
+
+const FIXTURES = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+);
+
+function loadCustody(name: string) {
+  const { account } = JSON.parse(
+    fs.readFileSync(path.join(FIXTURES, `${name}.json`), "utf8"),
+  );
+
+  return decodeCustodySnapshot(account.data[0]);
+}
+
+const solCustody = loadCustody("sol-custody");
+const usdcCustody = loadCustody("usdc-custody");
+
+// $150, in USDC decimals
+const SOL_PRICE = new BN(150_000_000);
+
+describe("decodeCustodySnapshot", () => {
+  test("decodes the custody fixtures", () => {
+    assert.equal(solCustody.decimals, 9);
+    assert.equal(solCustody.isStable, false);
+    assert.equal(solCustody.pricing.maxLeverage.toString(), "1000000");
+    assert.equal(solCustody.oracle.maxPriceAgeSec, 5);
+    assert.equal(usdcCustody.decimals, 6);
+    assert.equal(usdcCustody.isStable, true);
+  });
+});
+
+describe("simulateIncreaseQuote", () => {
+  test("quotes a new long collateralized with SOL", () => {
+    const quote = simulateIncreaseQuote({
+      custody: solCustody,
+      collateralCustody: solCustody,
+      tokenPrice: SOL_PRICE,
+      side: "long",
+      sizeUsdDelta: new BN(1_000_000_000),
+      collateralTokenDelta: new BN(1_000_000_000),
+    });
+
+    assert.deepEqual(quote.errors, []);
+    assert.equal(quote.collateralUsd.value.toString(), "150000000");
+    // $1,000 * 6 bps
+    assert.equal(quote.openFee.value.toString(), "600000");
+    // ceil($1,000 / $1.25B in bps) = 1 bps
+    assert.equal(quote.priceImpactFee.value.toString(), "100000");
+    assert.equal(quote.borrowFee.value.toString(), "0");
+    assert.equal(quote.totalFees.value.toString(), "700000");
+    assert.equal(quote.positionCollateralUsd.value.toString(), "149300000");
+    assert.equal(quote.leverage, 6.6979);
+    assert.equal(quote.maxLeverage, 100);
+    // Max loss is 1% of the size plus the close fee ($10.60), so the price can drop
+    // ($149.30 - $10.60) / $1,000 * $150 = $20.805 before liquidation
+    assert.equal(quote.liquidationPrice.value.toString(), "129195000");
+    // 8.75% a year at 30% utilization, on $1,000
+    assert.equal(quote.hourlyBorrowCost.value.toString(), "9988");
+    assert.equal(quote.hourlyBorrowCost.formatted, "0.0099");
+  });
+
+  test("quotes a new short collateralized with USDC", () => {
+    const quote = simulateIncreaseQuote({
+      custody: solCustody,
+      collateralCustody: usdcCustody,
+      tokenPrice: SOL_PRICE,
+      side: "short",
+      sizeUsdDelta: new BN(500_000_000),
+      collateralTokenDelta: new BN(100_000_000),
+    });
+
+    assert.deepEqual(quote.errors, []);
+    // Stablecoin collateral is valued at $1 without a `collateralPrice`
+    assert.equal(quote.collateralUsd.value.toString(), "100000000");
+    assert.equal(quote.openFee.value.toString(), "300000");
+    assert.equal(quote.priceImpactFee.value.toString(), "50000");
+    assert.equal(quote.positionCollateralUsd.value.toString(), "99650000");
+    assert.equal(quote.liquidationPrice.value.toString(), "178305000");
+    // The borrow rate comes from the collateral custody: 12.5% a year at 60% utilization
+    assert.equal(quote.hourlyBorrowCost.value.toString(), "7134");
+  });
+
+  test("flags leverage above the custody's max", () => {
+    const quote = simulateIncreaseQuote({
+      custody: solCustody,
+      collateralCustody: solCustody,
+      tokenPrice: SOL_PRICE,
+      side: "long",
+      sizeUsdDelta: new BN(16_000_000_000),
+      collateralTokenDelta: new BN(1_000_000_000),
+    });
+
+    assert.equal(quote.totalFees.value.toString(), "11200000");
+    assert.equal(quote.leverage, 115.2737);
+    assert.deepEqual(quote.errors, ["Leverage 115.27x exceeds 100x"]);
+  });
+
+  test("flags collateral that does not cover the fees", () => {
+    const quote = simulateIncreaseQuote({
+      custody: solCustody,
+      collateralCustody: solCustody,
+      tokenPrice: SOL_PRICE,
+      side: "long",
+      sizeUsdDelta: new BN(1_000_000_000),
+      collateralTokenDelta: new BN(1_000_000),
+    });
+
+    assert.equal(quote.leverage, Infinity);
+    assert.deepEqual(quote.errors, ["Collateral does not cover the fees"]);
+  });
+});
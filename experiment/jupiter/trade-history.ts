@@ -0,0 +1,417 @@
+import BN from "bn.js";
+import { PublicKey } from "@solana/web3.js";
+import { custodySymbol, USDC_DECIMALS } from "./constants";
+import { JsonlEventStore, PerpetualsEventRecord } from "./event-store";
+import { PerpetualsEventName } from "./events";
+import {
+  calculateOpenCloseBaseFee,
+  calculatePriceImpactFee,
+  toUsdValue,
+} from "./math";
+import { PerpetualsClient } from "./perpetuals-client";
+import { PositionSide } from "./slippage";
+import { Custody } from "./types";
+
+// Rebuilds a wallet's trades from the indexed events (see `event-indexer.ts`). A `Position` PDA is
+// reused for every position the wallet opens on the same custody / collateral / side, so a new
+// lifecycle starts whenever an increase follows a fully closed (or liquidated) position.
+//
+// Jupiter Perpetuals has no funding payments, holding a position costs a borrow fee instead. The
+// borrow fee accrued since the last update is realized on every increase / decrease and included in
+// the event's `feeUsd`, so it is estimated as `feeUsd` minus the trade's base and price impact fee
+// (priced with the custody's *current* fee parameters).
+
+export const TRADE_EVENTS: PerpetualsEventName[] = [
+  "IncreasePositionEvent",
+  "InstantIncreasePositionEvent",
+  "DecreasePositionEvent",
+  "InstantDecreasePositionEvent",
+  "LiquidateFullPositionEvent",
+];
+
+export type TradeAction = "increase" | "decrease" | "liquidation";
+
+export type Trade = {
+  signature: string;
+  blockTime: number | null;
+  action: TradeAction;
+  sizeUsdDelta: BN;
+  price: BN;
+  // Position size after the trade
+  positionSizeUsd: BN;
+  // Open / close / price impact fee, plus the liquidation fee for liquidations
+  tradingFeeUsd: BN;
+  borrowFeeUsd: BN;
+  // Signed price PnL realized by the trade, before fees
+  realizedPnlUsd: BN;
+};
+
+export type PositionLifecycle = {
+  positionKey: string;
+  side: PositionSide;
+  custody: string;
+  collateralCustody: string;
+  status: "open" | "closed" | "liquidated";
+  openedAt: number | null;
+  closedAt: number | null;
+  trades: Trade[];
+  realizedPnlUsd: BN;
+  tradingFeesUsd: BN;
+  borrowFeesUsd: BN;
+  // `realizedPnlUsd` net of all fees
+  netPnlUsd: BN;
+};
+
+export type TradeReport = {
+  wallet: string;
+  fromTime?: number;
+  toTime?: number;
+  positions: PositionLifecycle[];
+  realizedPnlUsd: BN;
+  tradingFeesUsd: BN;
+  borrowFeesUsd: BN;
+  netPnlUsd: BN;
+};
+
+type TradeEventRecord = Extract<
+  PerpetualsEventRecord,
+  {
+    name:
+      | "IncreasePositionEvent"
+      | "InstantIncreasePositionEvent"
+      | "DecreasePositionEvent"
+      | "InstantDecreasePositionEvent"
+      | "LiquidateFullPositionEvent";
+  }
+>;
+
+// A lifecycle before its trades are totalled up
+type LifecycleTrades = Omit<
+  PositionLifecycle,
+  "realizedPnlUsd" | "tradingFeesUsd" | "borrowFeesUsd" | "netPnlUsd"
+>;
+
+function isTradeEvent(
+  record: PerpetualsEventRecord,
+): record is TradeEventRecord {
+  return TRADE_EVENTS.includes(record.name);
+}
+
+function splitFee(
+  feeUsd: BN,
+  sizeUsdDelta: BN,
+  action: "open" | "close",
+  custody?: Custody,
+) {
+  if (!custody) return { tradingFeeUsd: feeUsd, borrowFeeUsd: new BN(0) };
+
+  const estimatedTradingFee = calculateOpenCloseBaseFee(
+    sizeUsdDelta,
+    custody,
+    action,
+  ).add(calculatePriceImpactFee(sizeUsdDelta, custody));
+  const borrowFeeUsd = BN.max(feeUsd.sub(estimatedTradingFee), new BN(0));
+
+  return { tradingFeeUsd: feeUsd.sub(borrowFeeUsd), borrowFeeUsd };
+}
+
+function toTrade(record: TradeEventRecord, custody?: Custody): Trade {
+  const { data } = record;
+  const base = {
+    signature: record.signature,
+    blockTime: record.blockTime,
+    price: new BN(data.price),
+    positionSizeUsd: new BN(data.positionSizeUsd),
+  };
+
+  switch (record.name) {
+    case "IncreasePositionEvent":
+    case "InstantIncreasePositionEvent": {
+      const sizeUsdDelta = new BN(record.data.sizeUsdDelta);
+
+      return {
+        ...base,
+        action: "increase",
+        sizeUsdDelta,
+        ...splitFee(
+          new BN(record.data.feeUsd),
+          sizeUsdDelta,
+          "open",
+          custody,
+        ),
+        realizedPnlUsd: new BN(0),
+      };
+    }
+    case "DecreasePositionEvent":
+    case "InstantDecreasePositionEvent": {
+      const sizeUsdDelta = new BN(record.data.sizeUsdDelta);
+      const pnlDelta = new BN(record.data.pnlDelta);
+
+      return {
+        ...base,
+        action: "decrease",
+        sizeUsdDelta,
+        ...splitFee(
+          new BN(record.data.feeUsd),
+          sizeUsdDelta,
+          "close",
+          custody,
+        ),
+        realizedPnlUsd: record.data.hasProfit ? pnlDelta : pnlDelta.neg(),
+      };
+    }
+    case "LiquidateFullPositionEvent": {
+      const sizeUsdDelta = new BN(record.data.positionSizeUsd);
+      const pnlDelta = new BN(record.data.pnlDelta);
+      const { tradingFeeUsd, borrowFeeUsd } = splitFee(
+        new BN(record.data.feeUsd),
+        sizeUsdDelta,
+        "close",
+        custody,
+      );
+
+      return {
+        ...base,
+        action: "liquidation",
+        sizeUsdDelta,
+        // The whole position is closed, whatever size the event reports
+        positionSizeUsd: new BN(0),
+        tradingFeeUsd: tradingFeeUsd.add(
+          new BN(record.data.liquidationFeeUsd),
+        ),
+        borrowFeeUsd,
+        realizedPnlUsd: record.data.hasProfit ? pnlDelta : pnlDelta.neg(),
+      };
+    }
+  }
+}
+
+function sumBy(items: { [key: string]: unknown }[], key: string) {
+  return items.reduce((total, item) => total.add(item[key] as BN), new BN(0));
+}
+
+function summarize(lifecycle: LifecycleTrades): PositionLifecycle {
+  const realizedPnlUsd = sumBy(lifecycle.trades, "realizedPnlUsd");
+  const tradingFeesUsd = sumBy(lifecycle.trades, "tradingFeeUsd");
+  const borrowFeesUsd = sumBy(lifecycle.trades, "borrowFeeUsd");
+
+  return {
+    ...lifecycle,
+    realizedPnlUsd,
+    tradingFeesUsd,
+    borrowFeesUsd,
+    netPnlUsd: realizedPnlUsd.sub(tradingFeesUsd).sub(borrowFeesUsd),
+  };
+}
+
+// Pure reconstruction, `custodies` (keyed by pubkey string) is only used to split the borrow fee out
+// of `feeUsd` and can be left empty
+export function buildTradeReport(
+  wallet: PublicKey | string,
+  records: PerpetualsEventRecord[],
+  {
+    fromTime,
+    toTime,
+    custodies = new Map(),
+  }: {
+    fromTime?: number;
+    toTime?: number;
+    custodies?: Map<string, Custody>;
+  } = {},
+): TradeReport {
+  const tradeRecords = records
+    .filter(isTradeEvent)
+    .filter(({ owner }) => owner === wallet.toString())
+    .sort(
+      (a, b) =>
+        a.slot - b.slot ||
+        a.outerIxIndex - b.outerIxIndex ||
+        a.ixIndex - b.ixIndex,
+    );
+
+  const positions: LifecycleTrades[] = [];
+  const current = new Map<string, LifecycleTrades>();
+
+  tradeRecords.forEach((record) => {
+    const { positionKey, positionCustody, positionCollateralCustody } =
+      record.data;
+    const trade = toTrade(record, custodies.get(positionCustody));
+
+    let lifecycle = current.get(positionKey);
+
+    if (!lifecycle || lifecycle.status !== "open") {
+      lifecycle = {
+        positionKey,
+        // Events carry the raw `Side` discriminant: 1 = long, 2 = short
+        side: record.data.positionSide === 1 ? "long" : "short",
+        custody: positionCustody,
+        collateralCustody: positionCollateralCustody,
+        status: "open",
+        openedAt: trade.blockTime,
+        closedAt: null,
+        trades: [],
+      };
+      current.set(positionKey, lifecycle);
+      positions.push(lifecycle);
+    }
+
+    lifecycle.trades.push(trade);
+
+    if (trade.action === "liquidation") {
+      lifecycle.status = "liquidated";
+      lifecycle.closedAt = trade.blockTime;
+    } else if (trade.action === "decrease" && trade.positionSizeUsd.isZero()) {
+      lifecycle.status = "closed";
+      lifecycle.closedAt = trade.blockTime;
+    }
+  });
+
+  const inRange = (blockTime: number | null) =>
+    blockTime !== null &&
+    (fromTime === undefined || blockTime >= fromTime) &&
+    (toTime === undefined || blockTime <= toTime);
+
+  // Lifecycles are rebuilt from the full history, the date range only picks which trades count
+  const summaries = positions
+    .map((lifecycle) =>
+      summarize({
+        ...lifecycle,
+        trades: lifecycle.trades.filter(({ blockTime }) => inRange(blockTime)),
+      }),
+    )
+    .filter(({ trades }) => trades.length > 0);
+
+  const realizedPnlUsd = sumBy(summaries, "realizedPnlUsd");
+  const tradingFeesUsd = sumBy(summaries, "tradingFeesUsd");
+  const borrowFeesUsd = sumBy(summaries, "borrowFeesUsd");
+
+  return {
+    wallet: wallet.toString(),
+    fromTime,
+    toTime,
+    positions: summaries,
+    realizedPnlUsd,
+    tradingFeesUsd,
+    borrowFeesUsd,
+    netPnlUsd: realizedPnlUsd.sub(tradingFeesUsd).sub(borrowFeesUsd),
+  };
+}
+
+// Loads the wallet's trade events from the store and the custodies they reference from chain
+export async function loadTradeReport(
+  store: JsonlEventStore,
+  client: PerpetualsClient,
+  wallet: PublicKey | string,
+  range: { fromTime?: number; toTime?: number } = {},
+) {
+  // The date range is applied after the lifecycles are rebuilt, so load the full history up to `toTime`
+  const records = await store.query({
+    wallet,
+    eventTypes: TRADE_EVENTS,
+    toTime: range.toTime,
+  });
+
+  const custodyKeys = [
+    ...new Set(
+      records.filter(isTradeEvent).map(({ data }) => data.positionCustody),
+    ),
+  ];
+  const custodyAccounts = await client.getCustodies(custodyKeys);
+  const custodies = new Map(
+    custodyKeys.map((key, index) => [key, custodyAccounts[index]]),
+  );
+
+  return buildTradeReport(wallet, records, { ...range, custodies });
+}
+
+/* Export */
+
+function formatUsd(value: BN) {
+  return toUsdValue(value, USDC_DECIMALS, USDC_DECIMALS).formatted;
+}
+
+function formatTime(blockTime: number | null) {
+  return blockTime === null ? "" : new Date(blockTime * 1000).toISOString();
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const CSV_HEADER = [
+  "time",
+  "position",
+  "market",
+  "side",
+  "action",
+  "size_usd",
+  "price",
+  "position_size_usd",
+  "trading_fee_usd",
+  "borrow_fee_usd",
+  "realized_pnl_usd",
+  "signature",
+];
+
+// One row per trade, amounts in USD with full USDC precision
+export function tradeReportToCsv(report: TradeReport) {
+  const rows = report.positions.flatMap((position) =>
+    position.trades.map((trade) => [
+      formatTime(trade.blockTime),
+      position.positionKey,
+      custodySymbol(position.custody),
+      position.side,
+      trade.action,
+      formatUsd(trade.sizeUsdDelta),
+      formatUsd(trade.price),
+      formatUsd(trade.positionSizeUsd),
+      formatUsd(trade.tradingFeeUsd),
+      formatUsd(trade.borrowFeeUsd),
+      formatUsd(trade.realizedPnlUsd),
+      trade.signature,
+    ]),
+  );
+
+  return [CSV_HEADER, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n");
+}
+
+export function tradeReportToJson(report: TradeReport) {
+  return JSON.stringify(
+    {
+      wallet: report.wallet,
+      from: report.fromTime !== undefined ? formatTime(report.fromTime) : null,
+      to: report.toTime !== undefined ? formatTime(report.toTime) : null,
+      realizedPnlUsd: formatUsd(report.realizedPnlUsd),
+      tradingFeesUsd: formatUsd(report.tradingFeesUsd),
+      borrowFeesUsd: formatUsd(report.borrowFeesUsd),
+      netPnlUsd: formatUsd(report.netPnlUsd),
+      positions: report.positions.map((position) => ({
+        positionKey: position.positionKey,
+        market: custodySymbol(position.custody),
+        side: position.side,
+        status: position.status,
+        openedAt: formatTime(position.openedAt),
+        closedAt: formatTime(position.closedAt),
+        realizedPnlUsd: formatUsd(position.realizedPnlUsd),
+        tradingFeesUsd: formatUsd(position.tradingFeesUsd),
+        borrowFeesUsd: formatUsd(position.borrowFeesUsd),
+        netPnlUsd: formatUsd(position.netPnlUsd),
+        trades: position.trades.map((trade) => ({
+          time: formatTime(trade.blockTime),
+          action: trade.action,
+          sizeUsd: formatUsd(trade.sizeUsdDelta),
+          price: formatUsd(trade.price),
+          positionSizeUsd: formatUsd(trade.positionSizeUsd),
+          tradingFeeUsd: formatUsd(trade.tradingFeeUsd),
+          borrowFeeUsd: formatUsd(trade.borrowFeeUsd),
+          realizedPnlUsd: formatUsd(trade.realizedPnlUsd),
+          signature: trade.signature,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ *  Jupiter Perpetuals – per-wallet trade history and realized PnL.
+ *
+ *  USAGE
+ *  -----
+ *  tsx jupiter/index-events.ts sync          # the report is built from the indexed events
+ *  tsx jupiter/trade-report.ts --wallet <pubkey> [--from <iso date>] [--to <iso date>]
+ *                              [--format csv|json] [--out <file>] [--dir <event store>]
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "node:util";
+import { createConnection } from "../config";
+import { JsonlEventStore } from "./event-store";
+import { PerpetualsClient } from "./perpetuals-client";
+import {
+  loadTradeReport,
+  tradeReportToCsv,
+  tradeReportToJson,
+} from "./trade-history";
+import { toUsdValue } from "./math";
+import { __dirname, config, toUnixTime } from "./utils";
+
+const { values } = parseArgs({
+  options: {
+    wallet: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    format: { type: "string", default: "csv" },
+    out: { type: "string" },
+    dir: { type: "string", default: path.join(__dirname, "..", "data", "events") },
+    rpc: { type: "string", default: config.rpcUrl },
+    cluster: { type: "string" },
+  },
+});
+
+(async () => {
+  try {
+    if (!values.wallet) throw new Error("Missing --wallet");
+    if (values.format !== "csv" && values.format !== "json") {
+      throw new Error(`Invalid --format: ${values.format}`);
+    }
+
+    const report = await loadTradeReport(
+      new JsonlEventStore(values.dir!),
+      PerpetualsClient.fromConnection(
+        createConnection({ ...config, rpcUrl: values.rpc! }),
+      ),
+      new PublicKey(values.wallet),
+      { fromTime: toUnixTime(values.from), toTime: toUnixTime(values.to) },
+    );
+
+    const output =
+      values.format === "csv"
+        ? tradeReportToCsv(report)
+        : tradeReportToJson(report);
+
+    if (values.out) {
+      fs.writeFileSync(values.out, output + "\n");
+      console.log(
+        `📄  ${report.positions.length} positions written to ${values.out}`,
+      );
+    } else {
+      console.log(output);
+    }
+
+    // Summary goes to stderr so stdout stays a clean CSV / JSON document
+    console.error(
+      `Realized PnL $${toUsdValue(report.realizedPnlUsd).formatted}, trading fees $${
+        toUsdValue(report.tradingFeesUsd).formatted
+      }, borrow fees $${toUsdValue(report.borrowFeesUsd).formatted}, net $${
+        toUsdValue(report.netPnlUsd).formatted
+      }`,
+    );
+  } catch (err) {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+})();
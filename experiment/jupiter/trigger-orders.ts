@@ -0,0 +1,424 @@
+import BN from "bn.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+  JUPITER_PERPETUALS_PUBKEY,
+} from "./constants";
+import {
+  generatePositionPda,
+  generatePositionRequestPda,
+} from "./examples/generate-position-and-position-request-pda";
+import { buildFundingPlan } from "./funding";
+import { PerpetualsClient } from "./perpetuals-client";
+import { PositionSide } from "./slippage";
+import { Custody, PositionRequest } from "./types";
+
+// Trigger orders are `positionRequest` accounts with `requestType: Trigger`. Instead of being filled
+// straight away they sit onchain until the oracle price crosses `triggerPrice` (from below when
+// `triggerAboveThreshold` is set, from above otherwise), at which point the keeper executes them.
+//
+// - TP/SL are decrease requests attached to an existing `Position`. They can be created by the owner
+//   alone (`createDecreasePositionRequest2` / `updateDecreasePositionRequest2`)
+// - The `instant*` instructions are what the Jupiter frontend uses: they additionally require the
+//   `keeper` and `apiKeeper` signatures, so the owner signs first and hands the transaction over to be
+//   co-signed. Limit orders (trigger increase requests) can only be created this way
+// - Any pending trigger request is cancelled with `closePositionRequest`, see
+//   `buildClosePositionRequestInstructions`
+//
+// https://station.jup.ag/guides/perpetual-exchange/request-fulfillment-model
+
+export type TriggerKind = "take-profit" | "stop-loss";
+
+// The keepers that have to co-sign the `instant*` instructions
+export type InstantSigners = {
+  keeper: PublicKey;
+  apiKeeper: PublicKey;
+};
+
+// Take profit on a long / stop loss on a short fires when the price goes *up*, the opposite two
+// fire when it goes down
+export function isTpslAboveThreshold(side: PositionSide, kind: TriggerKind) {
+  return (side === "long") === (kind === "take-profit");
+}
+
+// Limit orders open at a better price than the current one: longs buy below it, shorts sell above it
+export function isLimitOrderAboveThreshold(side: PositionSide) {
+  return side === "short";
+}
+
+function requestTimeNow() {
+  return new BN(Math.floor(Date.now() / 1000));
+}
+
+function custodyPriceAccounts(custody: Custody) {
+  return {
+    custodyDovesPriceAccount: custody.dovesOracle,
+    custodyPythnetPriceAccount: custody.oracle.oracleAccount,
+  };
+}
+
+// Accounts shared by the TP/SL creation instructions (`createDecreasePositionRequest2` and
+// `instantCreateTpsl`), plus the instruction creating the owner's receiving ATA
+async function prepareTpsl(
+  client: PerpetualsClient,
+  {
+    owner,
+    positionPubkey,
+    desiredMint,
+    counter,
+  }: {
+    owner: PublicKey;
+    positionPubkey: PublicKey;
+    desiredMint?: PublicKey;
+    counter?: BN;
+  },
+) {
+  const position = await client.getPosition(positionPubkey);
+
+  if (position.sizeUsd.isZero()) {
+    throw new Error(`Position ${positionPubkey.toString()} is closed`);
+  }
+
+  const [custody, collateralCustody] = await client.getCustodies([
+    position.custody,
+    position.collateralCustody,
+  ]);
+
+  const { positionRequest, counter: requestCounter } =
+    generatePositionRequestPda({
+      counter,
+      positionPubkey,
+      requestChange: "decrease",
+    });
+
+  // Proceeds are paid out in the collateral mint unless asked otherwise
+  const mint = desiredMint ?? collateralCustody.mint;
+  const receivingAccount = getAssociatedTokenAddressSync(mint, owner);
+
+  return {
+    position,
+    positionRequest,
+    counter: requestCounter,
+    preInstructions: [
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        receivingAccount,
+        owner,
+        mint,
+      ),
+    ],
+    accounts: {
+      owner,
+      receivingAccount,
+      perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      pool: position.pool,
+      position: positionPubkey,
+      positionRequest,
+      positionRequestAta: getAssociatedTokenAddressSync(
+        mint,
+        positionRequest,
+        true,
+      ),
+      custody: position.custody,
+      ...custodyPriceAccounts(custody),
+      collateralCustody: position.collateralCustody,
+      desiredMint: mint,
+      referral: null,
+      eventAuthority: JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+      program: client.program.programId,
+    },
+  };
+}
+
+type CreateTpslParams = {
+  owner: PublicKey;
+  positionPubkey: PublicKey;
+  kind: TriggerKind;
+  // Trigger price in USDC decimals, the same precision as `position.price`
+  triggerPrice: BN;
+  // USD amount (USDC decimals) to close once triggered, ignored when `entirePosition` is set
+  sizeUsdDelta?: BN;
+  entirePosition?: boolean;
+  desiredMint?: PublicKey;
+  counter?: BN;
+};
+
+// TP/SL the owner can submit on their own, without going through the Jupiter API keeper
+export async function buildCreateTpslInstructions(
+  client: PerpetualsClient,
+  {
+    kind,
+    triggerPrice,
+    sizeUsdDelta = new BN(0),
+    entirePosition = true,
+    ...params
+  }: CreateTpslParams,
+) {
+  const { position, positionRequest, counter, preInstructions, accounts } =
+    await prepareTpsl(client, params);
+
+  const instruction = await client.program.methods
+    .createDecreasePositionRequest2({
+      collateralUsdDelta: new BN(0),
+      sizeUsdDelta: entirePosition ? new BN(0) : sizeUsdDelta,
+      requestType: { trigger: {} },
+      priceSlippage: null,
+      jupiterMinimumOut: null,
+      triggerPrice,
+      triggerAboveThreshold: isTpslAboveThreshold(
+        position.side.long ? "long" : "short",
+        kind,
+      ),
+      entirePosition,
+      counter,
+    })
+    .accounts(accounts)
+    .instruction();
+
+  return {
+    instructions: [...preInstructions, instruction],
+    positionRequest,
+    counter,
+  };
+}
+
+export async function buildInstantCreateTpslInstructions(
+  client: PerpetualsClient,
+  {
+    keeper,
+    apiKeeper,
+    kind,
+    triggerPrice,
+    sizeUsdDelta = new BN(0),
+    entirePosition = true,
+    ...params
+  }: CreateTpslParams & InstantSigners,
+) {
+  const { position, positionRequest, counter, preInstructions, accounts } =
+    await prepareTpsl(client, params);
+
+  const instruction = await client.program.methods
+    .instantCreateTpsl({
+      collateralUsdDelta: new BN(0),
+      sizeUsdDelta: entirePosition ? new BN(0) : sizeUsdDelta,
+      triggerPrice,
+      triggerAboveThreshold: isTpslAboveThreshold(
+        position.side.long ? "long" : "short",
+        kind,
+      ),
+      entirePosition,
+      counter,
+      requestTime: requestTimeNow(),
+    })
+    .accounts({ keeper, apiKeeper, ...accounts })
+    .instruction();
+
+  return {
+    instructions: [...preInstructions, instruction],
+    positionRequest,
+    counter,
+  };
+}
+
+type UpdateTriggerParams = {
+  positionRequest: PublicKey;
+  triggerPrice: BN;
+  // Defaults to the request's current `sizeUsdDelta`
+  sizeUsdDelta?: BN;
+  request?: PositionRequest;
+};
+
+async function prepareTriggerUpdate(
+  client: PerpetualsClient,
+  { positionRequest, request }: UpdateTriggerParams,
+) {
+  const positionRequestAccount =
+    request ??
+    (await client.program.account.positionRequest.fetch(positionRequest));
+
+  if (!positionRequestAccount.requestType.trigger) {
+    throw new Error(
+      `Position request ${positionRequest.toString()} is not a trigger order`,
+    );
+  }
+
+  const custody = await client.getCustody(positionRequestAccount.custody);
+
+  return {
+    request: positionRequestAccount,
+    accounts: {
+      owner: positionRequestAccount.owner,
+      perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      pool: positionRequestAccount.pool,
+      position: positionRequestAccount.position,
+      positionRequest,
+      custody: positionRequestAccount.custody,
+      ...custodyPriceAccounts(custody),
+    },
+  };
+}
+
+// Moves the trigger price (and optionally the size) of a pending TP/SL, signed by the owner alone
+export async function buildUpdateTpslInstruction(
+  client: PerpetualsClient,
+  params: UpdateTriggerParams,
+) {
+  const { request, accounts } = await prepareTriggerUpdate(client, params);
+
+  return client.program.methods
+    .updateDecreasePositionRequest2({
+      sizeUsdDelta: params.sizeUsdDelta ?? request.sizeUsdDelta,
+      triggerPrice: params.triggerPrice,
+    })
+    .accounts(accounts)
+    .instruction();
+}
+
+export async function buildInstantUpdateTpslInstruction(
+  client: PerpetualsClient,
+  { keeper, apiKeeper, ...params }: UpdateTriggerParams & InstantSigners,
+) {
+  const { request, accounts } = await prepareTriggerUpdate(client, params);
+
+  return client.program.methods
+    .instantUpdateTpsl({
+      sizeUsdDelta: params.sizeUsdDelta ?? request.sizeUsdDelta,
+      triggerPrice: params.triggerPrice,
+      requestTime: requestTimeNow(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      ...accounts,
+      eventAuthority: JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+      program: client.program.programId,
+    })
+    .instruction();
+}
+
+export async function buildInstantCreateLimitOrderInstructions(
+  client: PerpetualsClient,
+  {
+    keeper,
+    apiKeeper,
+    owner,
+    custody,
+    collateralCustody,
+    side,
+    sizeUsdDelta,
+    collateralTokenDelta,
+    triggerPrice,
+    inputMint,
+    counter,
+  }: InstantSigners & {
+    owner: PublicKey;
+    custody: PublicKey;
+    collateralCustody: PublicKey;
+    side: PositionSide;
+    sizeUsdDelta: BN;
+    // Amount of `inputMint` in base units (lamports for SOL)
+    collateralTokenDelta: BN;
+    // Trigger price in USDC decimals
+    triggerPrice: BN;
+    // Defaults to the collateral custody's mint
+    inputMint?: PublicKey;
+    counter?: BN;
+  },
+) {
+  const [custodyAccount, collateralCustodyAccount] = await client.getCustodies(
+    [custody, collateralCustody],
+  );
+
+  const { position } = generatePositionPda({
+    custody,
+    collateralCustody,
+    walletAddress: owner,
+    side,
+  });
+
+  const { positionRequest, counter: requestCounter } =
+    generatePositionRequestPda({
+      counter,
+      positionPubkey: position,
+      requestChange: "increase",
+    });
+
+  const mint = inputMint ?? collateralCustodyAccount.mint;
+  const {
+    fundingAccount,
+    positionRequestAta,
+    preInstructions,
+    postInstructions,
+    requiresSwap,
+  } = buildFundingPlan({
+    owner,
+    inputMint: mint,
+    collateralMint: collateralCustodyAccount.mint,
+    positionRequest,
+    collateralTokenDelta,
+  });
+
+  // Unlike market requests there is no `jupiterMinimumOut`, so the keeper can't swap the input
+  if (requiresSwap) {
+    throw new Error(
+      `Limit orders must be funded with the collateral mint ${collateralCustodyAccount.mint.toString()}`,
+    );
+  }
+
+  const instruction = await client.program.methods
+    .instantCreateLimitOrder({
+      sizeUsdDelta,
+      collateralTokenDelta,
+      side: side === "long" ? { long: {} } : { short: {} },
+      triggerPrice,
+      triggerAboveThreshold: isLimitOrderAboveThreshold(side),
+      counter: requestCounter,
+      requestTime: requestTimeNow(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      owner,
+      fundingAccount,
+      perpetuals: JUPITER_PERPETUALS_PUBKEY,
+      pool: client.poolPubkey,
+      position,
+      positionRequest,
+      positionRequestAta,
+      custody,
+      ...custodyPriceAccounts(custodyAccount),
+      collateralCustody,
+      inputMint: mint,
+      referral: null,
+      eventAuthority: JUPITER_PERPETUALS_EVENT_AUTHORITY_PUBKEY,
+      program: client.program.programId,
+    })
+    .instruction();
+
+  return {
+    instructions: [...preInstructions, instruction, ...postInstructions],
+    position,
+    positionRequest,
+    counter: requestCounter,
+  };
+}
+
+export async function buildInstantUpdateLimitOrderInstruction(
+  client: PerpetualsClient,
+  { keeper, apiKeeper, ...params }: UpdateTriggerParams & InstantSigners,
+) {
+  const { request, accounts } = await prepareTriggerUpdate(client, params);
+
+  return client.program.methods
+    .instantUpdateLimitOrder({
+      sizeUsdDelta: params.sizeUsdDelta ?? request.sizeUsdDelta,
+      triggerPrice: params.triggerPrice,
+      requestTime: requestTimeNow(),
+    })
+    .accounts({ keeper, apiKeeper, ...accounts })
+    .instruction();
+}
@@ -1,5 +1,6 @@
 import type { IdlAccounts, ProgramAccount, IdlTypes } from "@coral-xyz/anchor";
-import { Perpetuals } from "./idl/jupiter-perpetuals-idl";
+import type BN from "bn.js";
+import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
 
 export type Position = IdlAccounts<Perpetuals>["position"];
 export type PositionAccount = ProgramAccount<Position>;
@@ -13,3 +14,24 @@ export type CustodyAccount = ProgramAccount<Custody>;
 export type ContractTypes = IdlTypes<Perpetuals>;
 export type Pool = IdlAccounts<Perpetuals>["pool"];
 export type PoolApr = ContractTypes["PoolApr"];
+
+// A raw onchain USD amount together with its display string, so callers can keep doing math
+// on `value` while still having something human readable to log
+export type UsdValue = {
+  value: BN;
+  formatted: string;
+};
+
+export type PositionPnl = {
+  hasProfit: boolean;
+  // Signed PNL, i.e. negative when the position is at a loss
+  pnl: UsdValue;
+};
+
+export type PositionPnlAfterFees = PositionPnl & {
+  closeFee: UsdValue;
+  priceImpactFee: UsdValue;
+  borrowFee: UsdValue;
+  totalFees: UsdValue;
+  pnlAfterFees: UsdValue;
+};
@@ -0,0 +1,34 @@
+import BN from "bn.js";
+
+// Fixed point units of the perpetuals program and the BN helpers that work with them. Nothing in
+// here has side effects on import (no config, RPC connection or wallet), so `./math` and `./quote`
+// can run against fixtures.
+
+export const USDC_DECIMALS = 6;
+export const BPS_POWER = new BN(10_000);
+export const DBPS_POWER = new BN(100_000);
+export const RATE_POWER = new BN(1_000_000_000);
+
+// Helper function to format `bn` values into the string USD representation
+export function BNToUSDRepresentation(
+  value: BN,
+  exponent: number = 8,
+  displayDecimals: number = 2,
+): string {
+  const quotient = value.divn(Math.pow(10, exponent - displayDecimals));
+  const usd = Number(quotient) / Math.pow(10, displayDecimals);
+
+  return usd.toLocaleString("en-US", {
+    maximumFractionDigits: displayDecimals,
+    minimumFractionDigits: displayDecimals,
+    useGrouping: false,
+  });
+}
+
+export const divCeil = (a: BN, b: BN) => {
+  var dm = a.divmod(b);
+  // Fast case - exact division
+  if (dm.mod.isZero()) return dm.div;
+  // Round up
+  return dm.div.ltn(0) ? dm.div.isubn(1) : dm.div.iaddn(1);
+};
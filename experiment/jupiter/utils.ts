@@ -1,66 +1,84 @@
-import { BN, Wallet } from "@coral-xyz/anchor";
-import { Connection, Keypair } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { Keypair } from "@solana/web3.js";
 import path from "path";
 import { fileURLToPath } from "url";
 
 import fs from 'fs';
+import {
+  CLUSTER_RPC_URLS,
+  createConnection,
+  loadConfig,
+} from "../config";
+import {
+  encryptKeypair,
+  KEYSTORE_PASSPHRASE_ENV,
+  writeKeystore,
+} from "../keystore";
+import { loadWallet, SECRET_KEY_ENV, toWalletFile } from "../wallet";
 
 
 
 export const __filename = fileURLToPath(import.meta.url)
 export const __dirname = path.dirname(__filename)
-export const WALLET_PATH = path.join(__dirname, '..', 'dev-wallet.json')
 
+// The perpetuals program only lives on mainnet, see `../config` to point the scripts elsewhere
+export const config = loadConfig({ defaultCluster: "mainnet-beta" })
 
+export const WALLET_PATH = config.keypairPath
 
-export const MAINNET_RPC_URL = "https://api.mainnet-beta.solana.com";
-export const DEVNET_RPC_URL = "https://api.devnet.solana.com";
-export const LOCALNET_RPC_URL = "http://127.0.0.1:8899";
 
-export const RPC_URL = DEVNET_RPC_URL;
 
+export const MAINNET_RPC_URL = CLUSTER_RPC_URLS["mainnet-beta"];
+export const DEVNET_RPC_URL = CLUSTER_RPC_URLS.devnet;
+export const LOCALNET_RPC_URL = CLUSTER_RPC_URLS.localnet;
 
+export const RPC_URL = config.rpcUrl;
 
-export const connection = new Connection(RPC_URL)
 
-export const wallet = new Wallet(loadKeypair());
 
-export const RPC = RPC_URL;
+export const connection = createConnection(config)
 
+// Loaded on first use rather than on import, so the read-only scripts never prompt for a keystore
+// passphrase (or generate a wallet) just by importing this module
+let wallet: Wallet | undefined;
 
-// Helper function to format `bn` values into the string USD representation
-export function BNToUSDRepresentation(
-  value: BN,
-  exponent: number = 8,
-  displayDecimals: number = 2,
-): string {
-  const quotient = value.divn(Math.pow(10, exponent - displayDecimals));
-  const usd = Number(quotient) / Math.pow(10, displayDecimals);
-
-  return usd.toLocaleString("en-US", {
-    maximumFractionDigits: displayDecimals,
-    minimumFractionDigits: displayDecimals,
-    useGrouping: false,
-  });
+export function getWallet() {
+  return (wallet ??= new Wallet(loadKeypair()));
 }
 
-export const divCeil = (a: BN, b: BN) => {
-  var dm = a.divmod(b);
-  // Fast case - exact division
-  if (dm.mod.isZero()) return dm.div;
-  // Round up
-  return dm.div.ltn(0) ? dm.div.isubn(1) : dm.div.iaddn(1);
-};
+export const RPC = RPC_URL;
+
+
+// Kept importable from here for the examples, they live in `./units` so the offline math can
+// load without the wallet and connection set up below
+export { BNToUSDRepresentation, divCeil } from "./units";
 
 
+// Seconds since the epoch for a `--from` / `--to` style date option, `undefined` when it is unset
+export function toUnixTime(date: string | undefined) {
+  if (date === undefined) return undefined;
+
+  const time = Date.parse(date);
+
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+
+  return Math.floor(time / 1000);
+}
+
+
+// Written as an encrypted keystore when `SOLANA_KEYSTORE_PASSPHRASE` is set
 export function generateNewKeypair() {
   const kp = Keypair.generate()
-  const walletFile = {
-      privateKey: Array.from(kp.secretKey),
-      publicKey: kp.publicKey.toBase58()
+  const passphrase = process.env[KEYSTORE_PASSPHRASE_ENV]
+
+  if (passphrase) {
+    writeKeystore(WALLET_PATH, encryptKeypair(kp, passphrase))
+  } else {
+    fs.writeFileSync(WALLET_PATH, JSON.stringify(toWalletFile(kp), null, 2))
   }
-  
-  fs.writeFileSync(WALLET_PATH, JSON.stringify(walletFile, null, 2))
   console.log(`\nNew Solana wallet generated!`)
   console.log(`Public Key: ${kp.publicKey.toBase58()}`)
   console.log(`Wallet saved to ${WALLET_PATH}`)
@@ -68,13 +86,13 @@ export function generateNewKeypair() {
 }
 
 
+// Any format `loadWallet` understands, `SOLANA_SECRET_KEY` taking precedence over the wallet file
 export function loadKeypair() {
-  if (!fs.existsSync(WALLET_PATH)) {
+  if (!process.env[SECRET_KEY_ENV] && !fs.existsSync(WALLET_PATH)) {
       console.log('No wallet found, generating a new one...')
       return generateNewKeypair()
   }
-  console.log('Loading existing wallet from:', WALLET_PATH)
-  const walletFile = JSON.parse(fs.readFileSync(WALLET_PATH, 'utf8'))
-  const kp = Keypair.fromSecretKey(Uint8Array.from(walletFile.privateKey))
-  return kp
+  const { keypair, source } = loadWallet()
+  console.log('Loading existing wallet from:', source)
+  return keypair
 }
\ No newline at end of file
@@ -1,132 +1,329 @@
-import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+/**
+ *  Solana wallet tool.
+ *
+ *  USAGE
+ *  -----
+ *  tsx keygen.ts                                           interactive menu
+ *  tsx keygen.ts generate [--out dev-wallet-new.json] [--prefix <base58>] [--suffix <base58>]
+ *                          [--ignore-case] [--threads <n>]
+ *  tsx keygen.ts batch --count <n> --dir <directory> [--prefix ...] [--suffix ...] [--ignore-case]
+ *  tsx keygen.ts to-base58 [--file dev-wallet.json]
+ *  tsx keygen.ts from-base58 --key <base58> [--out Turbin3-wallet.json]
+ *  tsx keygen.ts from-bytes --bytes '[12,34,...]' [--out Turbin3-wallet.json]
+ *  tsx keygen.ts view [--file dev-wallet.json] [--cluster devnet]
+ *  tsx keygen.ts keystore-create [--out dev-wallet.keystore.json]
+ *  tsx keygen.ts keystore-import --source <file|base58> [--out dev-wallet.keystore.json]
+ *  tsx keygen.ts keystore-export --file <keystore> [--out Turbin3-wallet.json]
+ *  tsx keygen.ts keystore-unlock --file <keystore>
+ *
+ *  Subcommands print a single JSON object on stdout; failures print `{"error": "..."}` on stderr and
+ *  exit with code 1. Keystore passphrases come from SOLANA_KEYSTORE_PASSPHRASE, or a prompt.
+ *
+ *  `--prefix` / `--suffix` grind for a vanity address on worker threads; `batch` writes throwaway
+ *  wallets into a directory, indexed by its `manifest.json`.
+ */
+
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import bs58 from 'bs58'
 import * as prompt from 'prompt-sync'
 import * as fs from 'fs'
+import { parseArgs } from 'node:util'
+import { parsePositiveInteger } from './cli-options'
+import { createConnection, loadConfig } from './config'
+import {
+    decryptKeystore,
+    encryptKeypair,
+    KEYSTORE_PASSPHRASE_ENV,
+    readKeystore,
+    resolvePassphrase,
+    writeKeystore
+} from './keystore'
+import {
+    estimateVanityAttempts,
+    generateKeypairBatch,
+    grindVanityKeypair,
+    VanityPattern
+} from './vanity'
+import { loadWallet, parseKeypair, readKeypairFile, toWalletFile } from './wallet'
 
 const input = prompt.default()
 
-function displayMenu() {
-    console.log("\nSolana Wallet Tool");
-    console.log("1. Generate new keypair");
-    console.log("2. Decode keypair file to base58");
-    console.log("3. Convert base58 to keypair JSON");
-    console.log("4. View dev wallet");
-    console.log("5. View Turbin3 wallet");
-    console.log("6. Create Keypair from Binary");
-    console.log("7. Exit");
-    return input("Select an option (1-5): ");
-}
-
-function createKeypairFromBinary() {
-    const binaryKey = input("\nEnter binary secret key: ")
-
-    const binaryKeyArray = JSON.parse(binaryKey)
-    const secretKey = new Uint8Array(binaryKeyArray)
-    const kp = Keypair.fromSecretKey(secretKey)
-    const walletFile = {
-        privateKey: Array.from(secretKey),
-        publicKey: kp.publicKey.toBase58()
-    }
-    
-    fs.writeFileSync('./Turbin3-wallet.json', JSON.stringify(walletFile, null, 2))
-    console.log(`\nWallet converted and saved!`)
-    console.log(`Public Key: ${kp.publicKey.toBase58()}`)
+/* Operations, shared by the menu and the subcommands */
+
+function writeWalletFile(filename: string, kp: Keypair) {
+    fs.writeFileSync(filename, JSON.stringify(toWalletFile(kp), null, 2))
+    return { publicKey: kp.publicKey.toBase58(), file: filename }
 }
 
-function generateNewKeypair() {
-    const kp = Keypair.generate()
-    const walletFile = {
-        privateKey: Array.from(kp.secretKey),
-        publicKey: kp.publicKey.toBase58()
-    }
-    
-    fs.writeFileSync('./dev-wallet-new.json', JSON.stringify(walletFile, null, 2))
-    console.log(`\nNew Solana wallet generated!`)
-    console.log(`Public Key: ${kp.publicKey.toBase58()}`)
-    console.log(`Wallet saved to ./dev-wallet.json`)
+function generateWallet(out = './dev-wallet-new.json') {
+    return writeWalletFile(out, Keypair.generate())
 }
 
-function decodeKeypairToBase58() {
-    try {
-        const walletData = JSON.parse(fs.readFileSync('./dev-wallet.json', 'utf-8'))
-        const secretKey = new Uint8Array(walletData.privateKey)
-        const base58SecretKey = bs58.encode(secretKey)
-        console.log(`\nBase58 encoded secret key:`)
-        console.log(base58SecretKey)
-    } catch (error: any) {
-        console.error("\nError reading wallet file:", error.message)
+async function generateVanityWallet(pattern: VanityPattern, out = './dev-wallet-new.json', threads?: number) {
+    const { keypair, attempts, elapsedMs } = await grindVanityKeypair(pattern, { threads })
+    return { ...writeWalletFile(out, keypair), attempts, elapsedMs }
+}
+
+function walletToBase58(file = './dev-wallet.json') {
+    const kp = readKeypairFile(file)
+    return { publicKey: kp.publicKey.toBase58(), secretKey: bs58.encode(kp.secretKey) }
+}
+
+function base58ToWallet(key: string, out = './Turbin3-wallet.json') {
+    return writeWalletFile(out, Keypair.fromSecretKey(bs58.decode(key.trim())))
+}
+
+function bytesToWallet(bytes: string, out = './Turbin3-wallet.json') {
+    const secretKey = JSON.parse(bytes)
+    if (!Array.isArray(secretKey)) throw new Error("Expected a JSON byte array")
+    return writeWalletFile(out, parseKeypair(bytes, "binary secret key"))
+}
+
+async function viewWallet(file: string) {
+    const kp = readKeypairFile(file)
+    // The wallets are cohort (devnet) wallets unless another cluster is configured
+    const config = loadConfig({ defaultCluster: "devnet" })
+    const balance = await createConnection(config).getBalance(kp.publicKey)
+    return { keypair: kp, cluster: config.cluster, balance: balance / LAMPORTS_PER_SOL }
+}
+
+// New passphrases are asked twice, unless they come from the environment
+function newPassphrase() {
+    const fromEnv = process.env[KEYSTORE_PASSPHRASE_ENV]
+    if (fromEnv) return fromEnv
+
+    const passphrase = resolvePassphrase("New keystore passphrase: ")
+    if (passphrase !== resolvePassphrase("Repeat passphrase: ")) {
+        throw new Error("Passphrases do not match")
     }
+    return passphrase
 }
 
-async function viewWallet(filename: string) {
-    const walletData = JSON.parse(fs.readFileSync(`./${filename}`, 'utf-8'))
-    console.log(`\nSolana Wallet:`)
-    console.log(`Public Key: ${walletData.publicKey}`)
-    console.log(`Private Key: ${walletData.privateKey}`)
-    const connection = new Connection("https://api.devnet.solana.com");
-    const balance = await connection.getBalance(new PublicKey(walletData.publicKey));
-    console.log(`Balance: ${balance / LAMPORTS_PER_SOL} SOL`)
+function saveKeystore(kp: Keypair, out = './dev-wallet.keystore.json') {
+    writeKeystore(out, encryptKeypair(kp, newPassphrase()))
+    return { publicKey: kp.publicKey.toBase58(), file: out }
 }
 
-async function viewDevWallet() {
-    await viewWallet("dev-wallet.json")
+function unlockKeystoreFile(file: string) {
+    return decryptKeystore(readKeystore(file), resolvePassphrase())
 }
 
-async function viewTurbin3Wallet() {
-    await viewWallet("Turbin3-wallet.json")
+function exportKeystore(file: string, out = './Turbin3-wallet.json') {
+    const kp = unlockKeystoreFile(file)
+    fs.writeFileSync(out, JSON.stringify(toWalletFile(kp), null, 2), { mode: 0o600 })
+    return { publicKey: kp.publicKey.toBase58(), file: out }
 }
 
+/* Subcommands */
 
-function convertBase58ToKeypair() {
-    const base58Key = input("\nEnter base58 secret key: ")
-    try {
-        const secretKey = bs58.decode(base58Key)
-        const kp = Keypair.fromSecretKey(secretKey)
-        const walletFile = {
-            privateKey: Array.from(secretKey),
-            publicKey: kp.publicKey.toBase58()
+// Parsed by `main` inside its try, so an unknown flag is reported like any other command error
+function parseCommandLine() {
+    return parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string' },
+            file: { type: 'string' },
+            key: { type: 'string' },
+            bytes: { type: 'string' },
+            source: { type: 'string' },
+            cluster: { type: 'string' },
+            prefix: { type: 'string' },
+            suffix: { type: 'string' },
+            'ignore-case': { type: 'boolean', default: false },
+            threads: { type: 'string' },
+            count: { type: 'string' },
+            dir: { type: 'string' },
+        },
+    })
+}
+
+let values: ReturnType<typeof parseCommandLine>['values']
+
+function vanityPattern(): VanityPattern | undefined {
+    return values.prefix || values.suffix
+        ? { prefix: values.prefix, suffix: values.suffix, ignoreCase: values['ignore-case'] }
+        : undefined
+}
+
+function required(name: 'key' | 'bytes' | 'source' | 'file' | 'count' | 'dir') {
+    const value = values[name]
+    if (!value) throw new Error(`Missing --${name}`)
+    return value
+}
+
+// Parsed here rather than at load, so a bad value is reported like any other command error
+function threads() {
+    return values.threads === undefined ? undefined : parsePositiveInteger(values.threads, '--threads')
+}
+
+async function runCommand(command: string) {
+    const pattern = vanityPattern()
+
+    switch (command) {
+        case 'generate':
+            return pattern
+                ? generateVanityWallet(pattern, values.out, threads())
+                : generateWallet(values.out)
+        case 'batch':
+            return generateKeypairBatch(parsePositiveInteger(required('count'), '--count'), required('dir'), { pattern, threads: threads() })
+        case 'to-base58':
+            return walletToBase58(values.file)
+        case 'from-base58':
+            return base58ToWallet(required('key'), values.out)
+        case 'from-bytes':
+            return bytesToWallet(required('bytes'), values.out)
+        case 'view': {
+            const { keypair, cluster, balance } = await viewWallet(values.file ?? './dev-wallet.json')
+            return { publicKey: keypair.publicKey.toBase58(), cluster, balance }
         }
-        
-        fs.writeFileSync('./Turbin3-wallet.json', JSON.stringify(walletFile, null, 2))
-        console.log(`\nWallet converted and saved!`)
-        console.log(`Public Key: ${kp.publicKey.toBase58()}`)
-        console.log(`Wallet saved to ./Turbin3-wallet.json`)
-    } catch (error: any) {
-        console.error("\nError converting base58 key:", error.message)
+        case 'keystore-create':
+            return saveKeystore(Keypair.generate(), values.out)
+        case 'keystore-import':
+            return saveKeystore(loadWallet(required('source')).keypair, values.out)
+        case 'keystore-export':
+            return exportKeystore(required('file'), values.out)
+        case 'keystore-unlock':
+            return { publicKey: unlockKeystoreFile(required('file')).publicKey.toBase58() }
+        default:
+            throw new Error(`Unknown command: ${command}`)
+    }
+}
+
+/* Interactive menu */
+
+const MENU = [
+    "Generate new keypair",
+    "Decode keypair file to base58",
+    "Convert base58 to keypair JSON",
+    "View dev wallet",
+    "View Turbin3 wallet",
+    "Create Keypair from Binary",
+    "Create encrypted keystore",
+    "Import wallet into keystore",
+    "Export keystore to wallet JSON",
+    "Unlock keystore",
+    "Grind vanity keypair",
+    "Generate keypair batch",
+    "Exit",
+]
+
+function displayMenu() {
+    console.log("\nSolana Wallet Tool");
+    MENU.forEach((label, index) => console.log(`${index + 1}. ${label}`));
+    return input(`Select an option (1-${MENU.length}): `);
+}
+
+async function runMenuOption(choice: string) {
+    switch (choice) {
+        case '1': {
+            const { publicKey, file } = generateWallet()
+            console.log(`\nNew Solana wallet generated!`)
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '2':
+            console.log(`\nBase58 encoded secret key:`)
+            console.log(walletToBase58().secretKey)
+            break
+        case '3': {
+            const { publicKey, file } = base58ToWallet(input("\nEnter base58 secret key: "))
+            console.log(`\nWallet converted and saved!`)
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '4':
+        case '5': {
+            const filename = choice === '4' ? './dev-wallet.json' : './Turbin3-wallet.json'
+            const { keypair, balance } = await viewWallet(filename)
+            console.log(`\nSolana Wallet:`)
+            console.log(`Public Key: ${keypair.publicKey.toBase58()}`)
+            console.log(`Private Key: ${Array.from(keypair.secretKey)}`)
+            console.log(`Balance: ${balance} SOL`)
+            break
+        }
+        case '6': {
+            const { publicKey } = bytesToWallet(input("\nEnter binary secret key: "))
+            console.log(`\nWallet converted and saved!`)
+            console.log(`Public Key: ${publicKey}`)
+            break
+        }
+        case '7':
+        case '8': {
+            const kp = choice === '7'
+                ? Keypair.generate()
+                : loadWallet(input("\nWallet file or base58 secret key: ")).keypair
+            const out = input("\nKeystore file (dev-wallet.keystore.json): ") || 'dev-wallet.keystore.json'
+            const { publicKey, file } = saveKeystore(kp, `./${out}`)
+            console.log(`\nKeystore saved to ${file}`)
+            console.log(`Public Key: ${publicKey}`)
+            break
+        }
+        case '9': {
+            const keystore = input("\nKeystore file: ")
+            const out = input("Export to (Turbin3-wallet.json): ") || 'Turbin3-wallet.json'
+            const { file } = exportKeystore(`./${keystore}`, `./${out}`)
+            console.log(`\nPlaintext wallet saved to ${file}, keep it out of version control`)
+            break
+        }
+        case '10': {
+            const kp = unlockKeystoreFile(`./${input("\nKeystore file: ")}`)
+            console.log(`\nKeystore unlocked!`)
+            console.log(`Public Key: ${kp.publicKey.toBase58()}`)
+            break
+        }
+        case '11': {
+            const pattern = {
+                prefix: input("\nPrefix (optional): ") || undefined,
+                suffix: input("Suffix (optional): ") || undefined,
+                ignoreCase: input("Ignore case? (y/N): ").toLowerCase() === 'y',
+            }
+            console.log(`\nGrinding, ~${estimateVanityAttempts(pattern).toLocaleString()} attempts expected...`)
+            const { publicKey, file, attempts } = await generateVanityWallet(pattern)
+            console.log(`\nFound after ${attempts.toLocaleString()} attempts!`)
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '12': {
+            const count = parsePositiveInteger(input("\nHow many keypairs? "), 'count')
+            const dir = input("Directory (./wallets): ") || './wallets'
+            const { manifestPath } = await generateKeypairBatch(count, dir, {
+                onKeypair: ({ index, publicKey }) => console.log(`${index}. ${publicKey}`),
+            })
+            console.log(`\nManifest saved to ${manifestPath}`)
+            break
+        }
+        case '13':
+            console.log("\nGoodbye!")
+            process.exit(0)
+        default:
+            console.log("\nInvalid option. Please try again.")
     }
 }
 
 async function main() {
+    try {
+        const { positionals: [command], values: parsed } = parseCommandLine()
+        values = parsed
+
+        if (command) {
+            console.log(JSON.stringify(await runCommand(command)))
+            process.exit(0)
+        }
+    } catch (error: any) {
+        console.error(JSON.stringify({ error: error.message }))
+        process.exit(1)
+    }
+
     while (true) {
-        const choice = displayMenu()
-        
-        switch (choice) {
-            case '1':
-                generateNewKeypair()
-                break
-            case '2':
-                decodeKeypairToBase58()
-                break
-            case '3':
-                convertBase58ToKeypair()
-                break
-            case '4':
-                await viewDevWallet()
-                break
-            case '5':
-                await viewTurbin3Wallet()
-                break
-            case '6':
-                createKeypairFromBinary()
-                break
-            case '7':
-                console.log("\nGoodbye!")
-                process.exit(0)
-            default:
-                console.log("\nInvalid option. Please try again.")
+        try {
+            await runMenuOption(displayMenu())
+        } catch (error: any) {
+            console.error("\nError:", error.message)
         }
     }
 }
 
 main()
-
@@ -0,0 +1,216 @@
+import { Keypair } from "@solana/web3.js";
+import crypto from "crypto";
+import fs from "fs";
+
+// Passphrase encrypted wallet files, so dev and cohort keys don't sit in plaintext next to the code.
+// The secret key is encrypted with AES-256-GCM under a key derived from the passphrase with scrypt;
+// the public key stays in the clear so the file can be identified without unlocking it.
+//
+// `loadWallet` (see `./wallet`) unlocks keystores transparently, with the passphrase from
+// `SOLANA_KEYSTORE_PASSPHRASE` or prompted for on the terminal.
+
+export const KEYSTORE_PASSPHRASE_ENV = "SOLANA_KEYSTORE_PASSPHRASE";
+
+export type Keystore = {
+  version: 1;
+  publicKey: string;
+  crypto: {
+    kdf: "scrypt";
+    kdfparams: { n: number; r: number; p: number; dklen: 32; salt: string };
+    cipher: "aes-256-gcm";
+    // Hex encoded
+    iv: string;
+    ciphertext: string;
+    authTag: string;
+  };
+};
+
+// 2^15 keeps the derivation under a second on a laptop, pass a higher `n` for long lived keys
+const DEFAULT_SCRYPT_N = 2 ** 15;
+
+export function isKeystore(value: unknown): value is Keystore {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Keystore).version === 1 &&
+    typeof (value as Keystore).crypto === "object"
+  );
+}
+
+function deriveKey(
+  passphrase: string,
+  { n, r, p, dklen, salt }: Keystore["crypto"]["kdfparams"],
+) {
+  return crypto.scryptSync(
+    passphrase.normalize("NFKC"),
+    Buffer.from(salt, "hex"),
+    dklen,
+    // Node's default `maxmem` (32 MiB) is just short of what n = 2^15, r = 8 needs
+    { N: n, r, p, maxmem: 256 * n * r },
+  );
+}
+
+export function encryptKeypair(
+  keypair: Keypair,
+  passphrase: string,
+  { n = DEFAULT_SCRYPT_N }: { n?: number } = {},
+): Keystore {
+  if (!passphrase) throw new Error("Keystore passphrase cannot be empty");
+
+  const kdfparams = {
+    n,
+    r: 8,
+    p: 1,
+    dklen: 32 as const,
+    salt: crypto.randomBytes(32).toString("hex"),
+  };
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, kdfparams),
+    iv,
+  );
+  const publicKey = keypair.publicKey.toBase58();
+
+  // Bind the public key to the ciphertext so it can't be swapped for another one
+  cipher.setAAD(Buffer.from(publicKey));
+
+  const ciphertext = Buffer.concat([
+    cipher.update(keypair.secretKey),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    publicKey,
+    crypto: {
+      kdf: "scrypt",
+      kdfparams,
+      cipher: "aes-256-gcm",
+      iv: iv.toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+      authTag: cipher.getAuthTag().toString("hex"),
+    },
+  };
+}
+
+export function decryptKeystore(keystore: Keystore, passphrase: string) {
+  const { kdfparams, iv, ciphertext, authTag } = keystore.crypto;
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, kdfparams),
+    Buffer.from(iv, "hex"),
+  );
+
+  decipher.setAAD(Buffer.from(keystore.publicKey));
+  decipher.setAuthTag(Buffer.from(authTag, "hex"));
+
+  let secretKey: Buffer;
+
+  try {
+    secretKey = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch {
+    // GCM can't tell a wrong passphrase from a tampered file
+    throw new Error(
+      `Failed to unlock keystore ${keystore.publicKey}: wrong passphrase or corrupted file`,
+    );
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error(`Keystore ${keystore.publicKey} holds a different key`);
+  }
+
+  return keypair;
+}
+
+export function writeKeystore(filePath: string, keystore: Keystore) {
+  // Owner read / write only, like `solana-keygen` does for its keypair files
+  fs.writeFileSync(filePath, JSON.stringify(keystore, null, 2), {
+    mode: 0o600,
+  });
+}
+
+export function readKeystore(filePath: string) {
+  const keystore = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  if (!isKeystore(keystore)) {
+    throw new Error(`${filePath} is not a keystore`);
+  }
+
+  return keystore;
+}
+
+// Synchronous like the wallet loaders that call it: reads the terminal in raw mode without echoing.
+// The prompt goes to stderr so it stays out of the JSON the subcommands print on stdout.
+export function promptPassphrase(message = "Keystore passphrase: ") {
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `No terminal to prompt for the keystore passphrase, set ${KEYSTORE_PASSPHRASE_ENV}`,
+    );
+  }
+
+  const buffer = Buffer.alloc(64);
+  let passphrase = "";
+
+  process.stderr.write(message);
+  process.stdin.setRawMode(true);
+
+  try {
+    for (;;) {
+      let bytesRead: number;
+
+      try {
+        bytesRead = fs.readSync(
+          process.stdin.fd,
+          buffer,
+          0,
+          buffer.length,
+          null,
+        );
+      } catch (err) {
+        // stdin may be non-blocking, retry until there is input
+        if ((err as NodeJS.ErrnoException).code === "EAGAIN") continue;
+        throw err;
+      }
+
+      if (bytesRead === 0) return passphrase;
+
+      for (const char of buffer.toString("utf8", 0, bytesRead)) {
+        if (char === "\r" || char === "\n") return passphrase;
+        // Ctrl+C
+        if (char === "\u0003") process.exit(130);
+
+        passphrase =
+          char === "\u007f" || char === "\b"
+            ? passphrase.slice(0, -1)
+            : passphrase + char;
+      }
+    }
+  } finally {
+    process.stdin.setRawMode(false);
+    process.stderr.write("\n");
+  }
+}
+
+// `SOLANA_KEYSTORE_PASSPHRASE` when set, otherwise asks on the terminal
+export function resolvePassphrase(
+  message?: string,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  return env[KEYSTORE_PASSPHRASE_ENV] ?? promptPassphrase(message);
+}
+
+export function unlockKeystore(
+  keystore: Keystore,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  return decryptKeystore(
+    keystore,
+    resolvePassphrase(`Passphrase for ${keystore.publicKey}: `, env),
+  );
+}
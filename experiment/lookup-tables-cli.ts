@@ -0,0 +1,168 @@
+/**
+ *  Address lookup tables of the toolkit's protocols.
+ *
+ *  USAGE
+ *  -----
+ *  tsx lookup-tables-cli.ts show
+ *  tsx lookup-tables-cli.ts create|extend jupiter-perps
+ *  tsx lookup-tables-cli.ts create|extend solend [--market <name>]
+ *  tsx lookup-tables-cli.ts create|extend raydium --pool <amm id> [--pool <amm id> ...]
+ *  tsx lookup-tables-cli.ts deactivate|close <protocol>
+ *
+ *  `create` makes the protocol's table and fills it with the protocol's accounts (perps pool and
+ *  custodies, the market's Solend reserves, the Raydium pools' keys), `extend` adds the ones it
+ *  is missing. Tables are remembered per cluster in `lookup-tables.json`, where the senders pick
+ *  them up. `close` returns the rent a few minutes after `deactivate`.
+ *
+ *  Every command accepts `--keypair <file>` (the table authority) and `--cluster <name>`, see
+ *  `./config`.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { parseArgs } from "node:util";
+import { createConnection, loadConfig } from "./config";
+import { PerpetualsClient } from "./jupiter/perpetuals-client";
+import { fetchRaydiumPoolKeys } from "./jupiter/swap-router";
+import {
+  LookupTableProtocol,
+  LookupTableRegistry,
+  perpsLookupTableAddresses,
+  raydiumLookupTableAddresses,
+  solendLookupTableAddresses,
+} from "./lookup-tables";
+import { SolendMarketRegistry } from "./safe/market-registry";
+import { loadWallet } from "./wallet";
+
+const PROTOCOLS: LookupTableProtocol[] = ["jupiter-perps", "solend", "raydium"];
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    market: { type: "string" },
+    pool: { type: "string", multiple: true },
+    keypair: { type: "string" },
+    cluster: { type: "string" },
+  },
+});
+
+const config = loadConfig({ defaultCluster: "mainnet-beta" });
+const connection = createConnection(config);
+const registry = new LookupTableRegistry(connection, config.cluster);
+
+function parseProtocol(value: string | undefined) {
+  if (!value || !PROTOCOLS.includes(value)) {
+    throw new Error(
+      `Unknown protocol: ${value ?? "(none)"}. Expected one of ${PROTOCOLS.join(", ")}`,
+    );
+  }
+
+  return value;
+}
+
+async function protocolAddresses(protocol: LookupTableProtocol) {
+  if (protocol === "jupiter-perps") {
+    return perpsLookupTableAddresses(
+      PerpetualsClient.fromConnection(connection),
+    );
+  }
+
+  if (protocol === "solend") {
+    const market = SolendMarketRegistry.forCluster(config.cluster).getMarket(
+      values.market,
+    );
+
+    return solendLookupTableAddresses({
+      lendingMarket: market.address,
+      lendingMarketAuthority: market.authorityAddress,
+      reserves: market.reserves,
+    });
+  }
+
+  if (!values.pool?.length) throw new Error("Missing --pool");
+
+  return raydiumLookupTableAddresses(
+    await fetchRaydiumPoolKeys(
+      connection,
+      values.pool.map((pool) => new PublicKey(pool)),
+    ),
+  );
+}
+
+async function show() {
+  for (const protocol of PROTOCOLS) {
+    const table = await registry.get(protocol);
+
+    console.log(
+      table
+        ? `${protocol.padEnd(14)} ${table.key.toBase58()}  ${table.state.addresses.length} addresses${
+            table.isActive() ? "" : ", deactivated"
+          }`
+        : `${protocol.padEnd(14)} -`,
+    );
+  }
+}
+
+async function createOrExtend(command: "create" | "extend") {
+  const protocol = parseProtocol(positionals[1]);
+  const exists = registry.address(protocol) !== undefined;
+
+  if (command === "create" && exists) {
+    throw new Error(
+      `${protocol} already has a lookup table on ${config.cluster}, extend it instead`,
+    );
+  }
+  if (command === "extend" && !exists) {
+    throw new Error(
+      `No ${protocol} lookup table on ${config.cluster}, create it first`,
+    );
+  }
+
+  const table = await registry.ensure(
+    protocol,
+    loadWallet(values.keypair).keypair,
+    await protocolAddresses(protocol),
+  );
+
+  console.log(
+    `✅  ${protocol} lookup table ${table.key.toBase58()} holds ${table.state.addresses.length} addresses`,
+  );
+}
+
+(async () => {
+  const [command] = positionals;
+
+  try {
+    if (command === "show") {
+      await show();
+    } else if (command === "create" || command === "extend") {
+      await createOrExtend(command);
+    } else if (command === "deactivate") {
+      const protocol = parseProtocol(positionals[1]);
+      const signature = await registry.deactivate(
+        protocol,
+        loadWallet(values.keypair).keypair,
+      );
+
+      console.log(
+        `⏸️  ${protocol} lookup table deactivated, close it in a few minutes:`,
+        signature,
+      );
+    } else if (command === "close") {
+      const protocol = parseProtocol(positionals[1]);
+      const signature = await registry.close(
+        protocol,
+        loadWallet(values.keypair).keypair,
+      );
+
+      console.log(`🗑️  ${protocol} lookup table closed:`, signature);
+    } else {
+      console.error(
+        `Unknown command: ${command ?? "(none)"}. Expected show, create, extend, deactivate or close`,
+      );
+      process.exit(1);
+    }
+  } catch (err) {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,375 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from "@solana/web3.js";
+import type { LiquidityPoolKeysV4 } from "@raydium-io/raydium-sdk";
+import fs from "fs";
+import type { Cluster } from "./config";
+import type { PerpetualsClient } from "./jupiter/perpetuals-client";
+import type { ReserveAccount } from "./safe/dto/solend-market";
+import { selectLookupTables, sendTransactionOrThrow } from "./send-transaction";
+
+// Address lookup tables (ALTs) let a v0 transaction reference up to 256 accounts by a one byte index
+// instead of a 32 byte key, which is what makes perps requests with several custodies, Solend
+// actions that refresh many reserves or multi-pool swaps fit in a transaction at all.
+//
+// Tables are created once per protocol and cluster, and their addresses are remembered in
+// `lookup-tables.json` (see `LookupTableRegistry`) so the next run extends the same table instead of
+// paying rent for a new one. `lookup-tables-cli.ts` manages them, the perps, Solend and swap
+// senders compile with them when they exist.
+//
+// Lifecycle: create -> extend (as often as needed, while active) -> deactivate -> close. A table
+// can only be closed once its deactivation slot is out of the slot hashes sysvar, ~513 slots (a
+// few minutes) later, which returns the rent to the recipient.
+
+export const LOOKUP_TABLES_PATH = "lookup-tables.json";
+
+// A lookup table holds at most 256 addresses
+export const LOOKUP_TABLE_MAX_ADDRESSES = 256;
+
+// Keeps an extend transaction under the 1232 byte packet limit
+const EXTEND_BATCH_SIZE = 20;
+
+export type LookupTableProtocol =
+  | "jupiter-perps"
+  | "solend"
+  | "raydium"
+  | (string & {});
+
+async function sendInstructions(
+  connection: Connection,
+  payer: Keypair,
+  instructions: TransactionInstruction[],
+) {
+  const { signature } = await sendTransactionOrThrow(connection, instructions, {
+    signers: [payer],
+  });
+
+  return signature;
+}
+
+export async function fetchLookupTable(
+  connection: Connection,
+  address: PublicKey,
+) {
+  const { value } = await connection.getAddressLookupTable(address);
+
+  if (!value) {
+    throw new Error(`Lookup table ${address.toBase58()} not found`);
+  }
+
+  return value;
+}
+
+// `recentSlot` has to be in the slot hashes sysvar when the transaction lands, the table address is
+// derived from it. A finalized slot always is, a processed one may belong to a dropped fork.
+export async function createLookupTable(
+  connection: Connection,
+  payer: Keypair,
+  addresses: PublicKey[] = [],
+) {
+  const recentSlot = await connection.getSlot("finalized");
+  const [instruction, lookupTable] =
+    AddressLookupTableProgram.createLookupTable({
+      authority: payer.publicKey,
+      payer: payer.publicKey,
+      recentSlot,
+    });
+
+  const signatures = [
+    await sendInstructions(connection, payer, [instruction]),
+  ];
+
+  if (addresses.length > 0) {
+    signatures.push(
+      ...(await extendLookupTable(connection, payer, lookupTable, addresses)),
+    );
+  }
+
+  return { lookupTable, signatures };
+}
+
+// Only appends the addresses the table doesn't hold yet, in as many transactions as needed
+export async function extendLookupTable(
+  connection: Connection,
+  payer: Keypair,
+  lookupTable: PublicKey,
+  addresses: PublicKey[],
+) {
+  // A freshly created table may not be visible yet, treat it as empty
+  const { value } = await connection.getAddressLookupTable(lookupTable);
+  const known = new Set(value?.state.addresses.map((a) => a.toBase58()));
+  const missing = [
+    ...new Map(addresses.map((a) => [a.toBase58(), a])).values(),
+  ].filter((address) => !known.has(address.toBase58()));
+
+  if (known.size + missing.length > LOOKUP_TABLE_MAX_ADDRESSES) {
+    throw new Error(
+      `Lookup table ${lookupTable.toBase58()} would hold ${known.size + missing.length} addresses, the limit is ${LOOKUP_TABLE_MAX_ADDRESSES}`,
+    );
+  }
+
+  const signatures: string[] = [];
+
+  for (let i = 0; i < missing.length; i += EXTEND_BATCH_SIZE) {
+    signatures.push(
+      await sendInstructions(connection, payer, [
+        AddressLookupTableProgram.extendLookupTable({
+          lookupTable,
+          authority: payer.publicKey,
+          payer: payer.publicKey,
+          addresses: missing.slice(i, i + EXTEND_BATCH_SIZE),
+        }),
+      ]),
+    );
+  }
+
+  return signatures;
+}
+
+export async function deactivateLookupTable(
+  connection: Connection,
+  authority: Keypair,
+  lookupTable: PublicKey,
+) {
+  return sendInstructions(connection, authority, [
+    AddressLookupTableProgram.deactivateLookupTable({
+      lookupTable,
+      authority: authority.publicKey,
+    }),
+  ]);
+}
+
+export async function closeLookupTable(
+  connection: Connection,
+  authority: Keypair,
+  lookupTable: PublicKey,
+  recipient: PublicKey = authority.publicKey,
+) {
+  const table = await fetchLookupTable(connection, lookupTable);
+
+  if (table.isActive()) {
+    throw new Error(
+      `Lookup table ${lookupTable.toBase58()} is still active, deactivate it first`,
+    );
+  }
+
+  return sendInstructions(connection, authority, [
+    AddressLookupTableProgram.closeLookupTable({
+      lookupTable,
+      authority: authority.publicKey,
+      recipient,
+    }),
+  ]);
+}
+
+/* Protocol address sets */
+
+// The pool, its custodies and everything a request instruction reads from them. Program ids are
+// left out of every set since instructions invoke them.
+export async function perpsLookupTableAddresses(client: PerpetualsClient) {
+  const { programId } = client.program;
+  const pool = await client.getPool();
+  const custodies = await client.getCustodies(pool.custodies);
+  const pda = (seed: string) =>
+    PublicKey.findProgramAddressSync([Buffer.from(seed)], programId)[0];
+
+  return [
+    pda("perpetuals"),
+    pda("__event_authority"),
+    client.poolPubkey,
+    ...pool.custodies,
+    ...custodies.flatMap((custody) => [
+      custody.mint,
+      custody.tokenAccount,
+      custody.dovesOracle,
+      custody.dovesAgOracle,
+      custody.oracle.oracleAccount,
+    ]),
+  ];
+}
+
+export function solendLookupTableAddresses({
+  lendingMarket,
+  lendingMarketAuthority,
+  reserves,
+}: {
+  lendingMarket: PublicKey;
+  lendingMarketAuthority: PublicKey;
+  reserves: ReserveAccount[];
+}) {
+  return [
+    lendingMarket,
+    lendingMarketAuthority,
+    ...reserves.flatMap((reserve) => [
+      reserve.address,
+      reserve.liquidityAddress,
+      reserve.liquidityFeeReceiverAddress,
+      reserve.collateralMintAddress,
+      reserve.collateralSupplyAddress,
+    ]),
+  ];
+}
+
+export function raydiumLookupTableAddresses(pools: LiquidityPoolKeysV4[]) {
+  return pools.flatMap((keys) =>
+    Object.values(keys).filter(
+      (value): value is PublicKey =>
+        value instanceof PublicKey && !value.equals(PublicKey.default),
+    ),
+  );
+}
+
+/* Compiling */
+
+// For transactions that aren't sent through `sendTransaction`, which selects the tables itself
+export function compileV0Message(
+  {
+    payerKey,
+    recentBlockhash,
+    instructions,
+  }: {
+    payerKey: PublicKey;
+    recentBlockhash: string;
+    instructions: TransactionInstruction[];
+  },
+  tables: AddressLookupTableAccount[] = [],
+) {
+  return new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    instructions,
+  }).compileToV0Message(selectLookupTables(instructions, tables));
+}
+
+/* Registry */
+
+type LookupTablesFile = Partial<
+  Record<Cluster, Record<LookupTableProtocol, string>>
+>;
+
+// The lookup table of each protocol on one cluster. Addresses persist in `path`, fetched tables are
+// cached in memory until `refresh`.
+export class LookupTableRegistry {
+  private readonly tables = new Map<string, AddressLookupTableAccount>();
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly cluster: Cluster,
+    private readonly path: string = LOOKUP_TABLES_PATH,
+  ) {}
+
+  private readFile(): LookupTablesFile {
+    return fs.existsSync(this.path)
+      ? JSON.parse(fs.readFileSync(this.path, "utf8"))
+      : {};
+  }
+
+  private writeAddress(protocol: LookupTableProtocol, address?: PublicKey) {
+    const file = this.readFile();
+    const entries = { ...file[this.cluster] };
+
+    if (address) {
+      entries[protocol] = address.toBase58();
+    } else {
+      delete entries[protocol];
+    }
+
+    fs.writeFileSync(
+      this.path,
+      JSON.stringify({ ...file, [this.cluster]: entries }, null, 2),
+    );
+  }
+
+  address(protocol: LookupTableProtocol) {
+    const address = this.readFile()[this.cluster]?.[protocol];
+    return address ? new PublicKey(address) : undefined;
+  }
+
+  async get(protocol: LookupTableProtocol, { refresh = false } = {}) {
+    const cached = this.tables.get(protocol);
+
+    if (cached && !refresh) return cached;
+
+    const address = this.address(protocol);
+
+    if (!address) return undefined;
+
+    const table = await fetchLookupTable(this.connection, address);
+    this.tables.set(protocol, table);
+
+    return table;
+  }
+
+  async getAll(protocols: LookupTableProtocol[]) {
+    const tables = await Promise.all(protocols.map((p) => this.get(p)));
+
+    return tables.filter(
+      (table): table is AddressLookupTableAccount => table !== undefined,
+    );
+  }
+
+  // Creates the protocol's table on first use and extends it with any address it's missing
+  async ensure(
+    protocol: LookupTableProtocol,
+    authority: Keypair,
+    addresses: PublicKey[],
+  ) {
+    let lookupTable = this.address(protocol);
+
+    if (!lookupTable) {
+      // Recorded before extending, so a failed extend batch leaves a table the next run extends
+      // (or closes) rather than an orphan holding rent
+      ({ lookupTable } = await createLookupTable(this.connection, authority));
+      this.writeAddress(protocol, lookupTable);
+    }
+
+    await extendLookupTable(this.connection, authority, lookupTable, addresses);
+
+    return (await this.get(protocol, { refresh: true }))!;
+  }
+
+  async deactivate(protocol: LookupTableProtocol, authority: Keypair) {
+    const lookupTable = this.address(protocol);
+
+    if (!lookupTable) {
+      throw new Error(`No ${protocol} lookup table on ${this.cluster}`);
+    }
+
+    this.tables.delete(protocol);
+    return deactivateLookupTable(this.connection, authority, lookupTable);
+  }
+
+  // Forgets the table once the rent is back, deactivate it a few minutes before
+  async close(protocol: LookupTableProtocol, authority: Keypair) {
+    const lookupTable = this.address(protocol);
+
+    if (!lookupTable) {
+      throw new Error(`No ${protocol} lookup table on ${this.cluster}`);
+    }
+
+    const signature = await closeLookupTable(
+      this.connection,
+      authority,
+      lookupTable,
+    );
+
+    this.tables.delete(protocol);
+    this.writeAddress(protocol);
+
+    return signature;
+  }
+
+  // Compiles with whichever of the protocols' tables the instructions touch
+  async compileV0Message(
+    message: Parameters<typeof compileV0Message>[0],
+    protocols: LookupTableProtocol[],
+  ) {
+    return compileV0Message(message, await this.getAll(protocols));
+  }
+}
@@ -0,0 +1,347 @@
+import { LangErrorCode, LangErrorMessage } from "@coral-xyz/anchor";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionError,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { IDL as PERPETUALS_IDL } from "./idl/jupiter-perpetuals-idl";
+
+// Turns `InstructionError: [2, { Custom: 6012 }]` into "Instruction 0 failed with jupiter-perps
+// error MaxPriceSlippage (6012): Max price slippage exceeded".
+//
+// A custom error code only means something for the program that returned it, so errors are
+// looked up by the program the logs say failed, which for an error raised in a CPI is not the
+// instruction's own program (that one is the fallback when there are no logs). Anchor programs
+// share the framework's codes (below 6000, account constraints and the like) and number their own
+// from 6000, native programs like Solend and SPL Token number theirs from 0.
+//
+// Used by the shared sender and the perps harness. The amm, escrow and vault-anchor test suites
+// and the solana-starter and turbin3-prereq-ts scripts are separate packages (Anchor 0.29 to 0.31)
+// that import nothing from here; they call their programs through `program.methods...rpc()`, which
+// already throws an `AnchorError` named from the program's own IDL, or only make System Program
+// transfers, so they are left as they are. Their program IDs are registered below so failures of
+// those programs sent from here decode too.
+
+export type ProgramErrorDefinition = {
+  name: string;
+  message: string;
+};
+
+type ProgramErrorTable = {
+  program: string;
+  // Falls back to Anchor's framework errors
+  anchor: boolean;
+  errors: Map<number, ProgramErrorDefinition>;
+};
+
+export type DecodedTransactionError = {
+  // Index into the caller's instructions, when an instruction failed
+  instructionIndex?: number;
+  programId?: PublicKey;
+  // Registered name of the program, `jupiter-perps`, `solend`...
+  program?: string;
+  // Program specific error code (`Custom(n)`)
+  code?: number;
+  name?: string;
+  message: string;
+  // The failing instruction's log lines, or every line when they can't be told apart
+  logs: string[];
+  raw: TransactionError;
+};
+
+const PROGRAM_ERRORS = new Map<string, ProgramErrorTable>();
+
+const ANCHOR_ERRORS = new Map(
+  Object.entries(LangErrorCode).map(([name, code]) => [
+    code,
+    { name, message: LangErrorMessage.get(code) ?? name },
+  ]),
+);
+
+// `names` are numbered from `firstCode`, in declaration order like the program's error enum
+function enumErrors(firstCode: number, names: [string, string][]) {
+  return names.map(([name, message], i) => ({ code: firstCode + i, name, msg: message }));
+}
+
+export function registerProgramErrors(
+  programIds: (PublicKey | string)[],
+  program: string,
+  errors: { code: number; name: string; msg?: string }[],
+  { anchor = true } = {},
+) {
+  const table = {
+    program,
+    anchor,
+    errors: new Map(
+      errors.map(({ code, name, msg }) => [code, { name, message: msg ?? name }]),
+    ),
+  };
+
+  for (const programId of programIds) {
+    PROGRAM_ERRORS.set(programId.toString(), table);
+  }
+}
+
+/* Known programs */
+
+registerProgramErrors(
+  ["PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu"],
+  "jupiter-perps",
+  PERPETUALS_IDL.errors,
+);
+
+// `LendingError` in solendprotocol/solana-program-library token-lending
+registerProgramErrors(
+  [
+    "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
+    "ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx",
+  ],
+  "solend",
+  enumErrors(0, [
+    ["InstructionUnpackError", "Failed to unpack instruction data"],
+    ["AlreadyInitialized", "Account is already initialized"],
+    ["NotRentExempt", "Lamport balance below rent-exempt threshold"],
+    ["InvalidMarketAuthority", "Market authority is invalid"],
+    ["InvalidMarketOwner", "Market owner is invalid"],
+    ["InvalidAccountOwner", "Input account owner is not the program address"],
+    ["InvalidTokenOwner", "Input token account is not owned by the correct token program id"],
+    ["InvalidTokenAccount", "Input token account is not valid"],
+    ["InvalidTokenMint", "Input token mint account is not valid"],
+    ["InvalidTokenProgram", "Input token program account is not valid"],
+    ["InvalidAmount", "Input amount is invalid"],
+    ["InvalidConfig", "Input config value is invalid"],
+    ["InvalidSigner", "Input account must be a signer"],
+    ["InvalidAccountInput", "Invalid account input"],
+    ["MathOverflow", "Math operation overflow"],
+    ["TokenInitializeMintFailed", "Token initialize mint failed"],
+    ["TokenInitializeAccountFailed", "Token initialize account failed"],
+    ["TokenTransferFailed", "Token transfer failed"],
+    ["TokenMintToFailed", "Token mint to failed"],
+    ["TokenBurnFailed", "Token burn failed"],
+    ["InsufficientLiquidity", "Insufficient liquidity available"],
+    ["ReserveCollateralDisabled", "Input reserve has collateral disabled"],
+    ["ReserveStale", "Reserve state needs to be refreshed"],
+    ["WithdrawTooSmall", "Withdraw amount too small"],
+    ["WithdrawTooLarge", "Withdraw amount too large"],
+    ["BorrowTooSmall", "Borrow amount too small to receive liquidity after fees"],
+    ["BorrowTooLarge", "Borrow amount too large for deposited collateral"],
+    ["RepayTooSmall", "Repay amount too small to transfer liquidity"],
+    ["LiquidationTooSmall", "Liquidation amount too small to receive collateral"],
+    ["ObligationHealthy", "Cannot liquidate healthy obligations"],
+    ["ObligationStale", "Obligation state needs to be refreshed"],
+    ["ObligationReserveLimit", "Obligation reserve limit exceeded"],
+    ["InvalidObligationOwner", "Obligation owner is invalid"],
+    ["ObligationDepositsEmpty", "Obligation deposits are empty"],
+    ["ObligationBorrowsEmpty", "Obligation borrows are empty"],
+    ["ObligationDepositsZero", "Obligation deposits have zero value"],
+    ["ObligationBorrowsZero", "Obligation borrows have zero value"],
+    ["InvalidObligationCollateral", "Invalid obligation collateral"],
+    ["InvalidObligationLiquidity", "Invalid obligation liquidity"],
+    ["ObligationCollateralEmpty", "Obligation collateral is empty"],
+    ["ObligationLiquidityEmpty", "Obligation liquidity is empty"],
+    ["NegativeInterestRate", "Interest rate is negative"],
+    ["InvalidOracleConfig", "Input oracle config is invalid"],
+    ["InvalidFlashLoanReceiverProgram", "Input flash loan receiver program account is not valid"],
+    ["NotEnoughLiquidityAfterFlashLoan", "Not enough liquidity after flash loan"],
+    ["NullOracleConfig", "Null oracle config"],
+    ["InsufficientProtocolFeesToRedeem", "Insufficient protocol fees to redeem"],
+    ["FlashBorrowCpi", "No cpi flash borrows allowed"],
+    ["NoFlashRepayFound", "No corresponding repay found for flash borrow"],
+    ["InvalidFlashRepay", "Invalid repay found"],
+    ["FlashRepayCpi", "No cpi flash repays allowed"],
+    ["MultipleFlashBorrows", "Multiple flash borrows not allowed in the same transaction"],
+    ["FlashLoansDisabled", "Flash loans are disabled for this reserve"],
+  ]),
+  { anchor: false },
+);
+
+// `TokenError` in spl-token, most often seen failing inside another program's instruction
+registerProgramErrors(
+  [TOKEN_PROGRAM_ID],
+  "spl-token",
+  enumErrors(0, [
+    ["NotRentExempt", "Lamport balance below rent-exempt threshold"],
+    ["InsufficientFunds", "Insufficient funds"],
+    ["InvalidMint", "Invalid Mint"],
+    ["MintMismatch", "Account not associated with this Mint"],
+    ["OwnerMismatch", "Owner does not match"],
+    ["FixedSupply", "Fixed supply"],
+    ["AlreadyInUse", "Already in use"],
+    ["InvalidNumberOfProvidedSigners", "Invalid number of provided signers"],
+    ["InvalidNumberOfRequiredSigners", "Invalid number of required signers"],
+    ["UninitializedState", "State is uninitialized"],
+    ["NativeNotSupported", "Instruction does not support native tokens"],
+    ["NonNativeHasBalance", "Non-native account can only be closed if its balance is zero"],
+    ["InvalidInstruction", "Invalid instruction"],
+    ["InvalidState", "State is invalid for requested operation"],
+    ["Overflow", "Operation overflowed"],
+    ["AuthorityTypeNotSupported", "Account does not support specified authority type"],
+    ["MintCannotFreeze", "This token mint cannot freeze accounts"],
+    ["AccountFrozen", "Account is frozen"],
+    ["MintDecimalsMismatch", "The provided decimals value different from the Mint decimals"],
+    ["NonNativeNotSupported", "Instruction does not support non-native tokens"],
+  ]),
+  { anchor: false },
+);
+
+// amm/programs/amm/src/error.rs
+registerProgramErrors(
+  ["AUtvBk8LgFGcJuC61ScEv1Hdtcy5EuJDyPgDo4Yi2z4X"],
+  "amm",
+  enumErrors(6000, [
+    ["DefaultError", "DefaultError"],
+    ["OfferExpired", "Offer expired."],
+    ["PoolLocked", "This pool is locked"],
+    ["InsufficientBalance", "insufficient balance"],
+    ["InvalidFeeAmount", "invalid fee amount"],
+    ["InvalidPrecision", "invalid precision"],
+    ["Overflow", "overflow on calculation"],
+    ["Underflow", "underflow on calculation"],
+    ["ZeroBalance", "zero balance"],
+    ["SlippageLimitExceeded", "slippage limit exceeded"],
+    ["InvalidAmount", "amount must be greater than zero"],
+  ]),
+);
+
+// The escrow and vault programs only fail with Anchor's own errors
+registerProgramErrors(["6Qs5hWd41Fz3js2sdnHfQ6h2R7AMJ9GAfPaqC8UYbDwm"], "escrow", []);
+registerProgramErrors(
+  ["DDPu4T2aHsNCwZQx5Q8ihL9M8y9WTTQzwHcrU9ptpmgb"],
+  "escrow-v2",
+  enumErrors(6000, [["CustomError", "Custom error message"]]),
+);
+registerProgramErrors(["4RhTP3VVvS2hZou18Go9s6E33ybeLuiofC3BAk8wVc5S"], "vault", []);
+
+/* Decoding */
+
+export function lookupProgramError(programId: PublicKey | undefined, code: number) {
+  const table = programId && PROGRAM_ERRORS.get(programId.toBase58());
+  const error =
+    table?.errors.get(code) ??
+    (!table || table.anchor ? ANCHOR_ERRORS.get(code) : undefined);
+
+  return error && { program: table?.program, ...error };
+}
+
+// The lines between the top level `invoke [1]` of instruction `index` and the next one
+function instructionLogs(logs: string[], index: number) {
+  const starts = logs.flatMap((log, i) => (/^Program \w+ invoke \[1\]$/.test(log) ? [i] : []));
+
+  return starts.length > index ? logs.slice(starts[index], starts[index + 1]) : logs;
+}
+
+// `Program <id> failed: custom program error: 0x1770`. The runtime logs the program that returned
+// the error first, then one line for each caller it bubbles up through, so the first line is the
+// program whose error table applies (a token program error inside a Solend deposit is a token
+// program error).
+function failedProgram(logs: string[]) {
+  for (const log of logs) {
+    const match = /^Program (\w+) failed: /.exec(log);
+    if (match) return new PublicKey(match[1]);
+  }
+}
+
+// `Program log: AnchorError ... Error Message: ...` or `Program log: Error: ...` lines
+function findLogMessage(logs: string[]) {
+  for (const log of logs) {
+    const anchor = /Error Message: (.*)$/.exec(log);
+    if (anchor) return anchor[1];
+  }
+
+  return logs.find((log) => /^Program log: Error/.test(log));
+}
+
+function describe(
+  what: string,
+  { program, code, name, message }: Partial<DecodedTransactionError>,
+) {
+  if (code === undefined) return `${what} failed: ${message}`;
+
+  const source = program ? `${program} error` : "error";
+  return name
+    ? `${what} failed with ${source} ${name} (${code}): ${message}`
+    : `${what} failed with ${source} ${code}: ${message}`;
+}
+
+// `instructionOffset` is the number of instructions prepended to the caller's `instructions`
+// (compute budget ones) so indexes are reported in the caller's terms
+export function decodeTransactionError(
+  err: TransactionError,
+  {
+    logs = [],
+    instructions,
+    instructionOffset = 0,
+  }: {
+    logs?: string[];
+    instructions?: TransactionInstruction[];
+    instructionOffset?: number;
+  } = {},
+): DecodedTransactionError {
+  const instructionError =
+    typeof err === "object" && err !== null && "InstructionError" in err
+      ? (err as { InstructionError: [number, unknown] }).InstructionError
+      : undefined;
+
+  if (!instructionError) {
+    return { message: JSON.stringify(err), logs, raw: err };
+  }
+
+  const [index, detail] = instructionError;
+  const failingLogs = instructionLogs(logs, index);
+  const instructionIndex = index - instructionOffset;
+  // The logs name the program that failed, the instruction only the one it called first
+  const programId =
+    instructionIndex < 0
+      ? ComputeBudgetProgram.programId
+      : failedProgram(failingLogs) ?? instructions?.[instructionIndex]?.programId;
+  const code =
+    typeof detail === "object" && detail !== null && "Custom" in detail
+      ? (detail as { Custom: number }).Custom
+      : undefined;
+  const known = code !== undefined ? lookupProgramError(programId, code) : undefined;
+  const decoded = {
+    programId,
+    program: known?.program,
+    code,
+    name: known?.name,
+    message:
+      known?.message ??
+      findLogMessage(failingLogs) ??
+      (code !== undefined ? `custom program error ${code}` : JSON.stringify(detail)),
+    logs: failingLogs,
+    raw: err,
+  };
+
+  return instructionIndex < 0
+    ? { ...decoded, message: describe("Compute budget instruction", decoded) }
+    : {
+        ...decoded,
+        instructionIndex,
+        message: describe(`Instruction ${instructionIndex}`, decoded),
+      };
+}
+
+// For errors thrown by Anchor's `.rpc()` or web3's `sendTransaction` (`AnchorError`,
+// `SendTransactionError`...), which carry the logs but not the structured error. Undefined for
+// errors without logs.
+export function describeThrownError(err: unknown) {
+  const logs = (err as { logs?: unknown })?.logs;
+
+  if (!Array.isArray(logs)) return undefined;
+
+  // The first one is the program that returned the error, see `failedProgram`
+  const failed = logs
+    .map((log) => /^Program (\w+) failed: custom program error: 0x([0-9a-f]+)$/.exec(log))
+    .find((match) => match !== null);
+  const code = failed ? parseInt(failed[2], 16) : undefined;
+  const known =
+    failed && code !== undefined
+      ? lookupProgramError(new PublicKey(failed[1]), code)
+      : undefined;
+
+  return known
+    ? `${describe("Transaction", { ...known, code })}\n${logs.join("\n")}`
+    : `${err}\n${logs.join("\n")}`;
+}
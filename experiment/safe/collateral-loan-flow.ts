@@ -2,42 +2,65 @@
  * collateral-flow.ts
  * ------------------
  * A self‑contained demo of collateral deposit / conventional loan on Solend‑Save
- * using the Devnet market definition that lives in `solend-devnet.json`.
+ * using the Devnet markets of `SolendMarketRegistry` (see `market-registry.ts`).
+ *
+ * The borrow is refused when it would take the obligation's health factor below
+ * `--health-target` (see `obligation-health.ts`).
  *
  * yarn add @solana/web3.js @solendprotocol/solend-sdk fs
- * ts-node collateral-flow.ts
+ * ts-node collateral-flow.ts [--health-target 1.5]
  */
 
-import {
-    Connection,
-    Keypair
-} from "@solana/web3.js";
+import { parseArgs } from "node:util";
 import {
     EnvironmentType,
     SolendActionCore as SolendAction,
 } from "@solendprotocol/solend-sdk";
 
 
-import wallet from "../dev-wallet.json";
-import { DevnetConfig } from "./dto/devnet-config";
+import { createConnection, loadConfig } from "../config";
+import { LookupTableRegistry } from "../lookup-tables";
+import { loadWallet } from "../wallet";
+import { SolendMarketRegistry } from "./market-registry";
+import {
+    assertBorrowWithinHealthTarget,
+    DEFAULT_HEALTH_TARGET,
+    formatObligationHealth,
+    inspectObligation,
+    parseHealthTarget,
+} from "./obligation-health";
 import { sendAll } from "./util";
 
+const { values } = parseArgs({
+  options: {
+    "health-target": { type: "string", default: String(DEFAULT_HEALTH_TARGET) },
+    cluster: { type: "string" },
+  },
+});
 
 (async () => {
+  // Before anything is sent, a bad target must not stop the flow halfway
+  const healthTarget = parseHealthTarget(values["health-target"]!);
+
   /* --- initialise dev‑net connection & wallet --- */
-  const connection = new Connection("https://api.devnet.solana.com");
-  const user = Keypair.fromSecretKey(new Uint8Array(wallet.privateKey));
+  const config = loadConfig({ defaultCluster: "devnet" });
+  const connection = createConnection(config);
+  const user = loadWallet().keypair;
 
-  const cfg = new DevnetConfig("./solend-devnet.json");
+  const registry = SolendMarketRegistry.forCluster(config.cluster);
+  const lookupTables = await new LookupTableRegistry(connection, config.cluster).getAll(["solend"]);
 
   /* choose the pool & reserve you want to work with */
   const poolName = "main";  // or "TURBO SOL", etc.
   const collateralSymbol = "SOL";
   const debtSymbol = "USDC";
 
-  const pool = cfg.getPool(poolName);
-  const collateralReserve = cfg.getReserve(poolName, collateralSymbol);
-  const debtReserve = cfg.getReserve(poolName, debtSymbol);
+  /* mainnet payloads don't list the mints and oracles, read them from chain */
+  await registry.refresh(connection, poolName);
+
+  const pool = registry.toInputPool(poolName);
+  const collateralReserve = registry.toInputReserve(registry.getReserve(collateralSymbol, poolName));
+  const debtReserve = registry.toInputReserve(registry.getReserve(debtSymbol, poolName));
 
   /* a tiny ActionConfig with only the dev‑net flag turned on */
   const baseCfg = {
@@ -54,19 +77,27 @@ import { sendAll } from "./util";
     { publicKey: user.publicKey },
     baseCfg
   );
-  await sendAll(deposit, connection, user);
+  await sendAll(deposit, connection, user, lookupTables);
   console.log("✅  5 SOL deposited → cSOL minted");
 
   /* ---------------- 2. borrow 10 000 USDC ---------------------- */
+  const borrowAmount = 10_000;
+  const health = await inspectObligation(connection, registry, user.publicKey, {
+    marketName: poolName,
+    healthTarget,
+  });
+  console.log(formatObligationHealth(health));
+  assertBorrowWithinHealthTarget(health, debtSymbol, borrowAmount);
+
   const borrow = await SolendAction.buildBorrowTxns(
     pool,
     debtReserve,
     connection,
-    "10000",                     // UI units
+    String(borrowAmount),        // UI units
     { publicKey: user.publicKey },
     baseCfg
   );
-  await sendAll(borrow, connection, user);
+  await sendAll(borrow, connection, user, lookupTables);
   console.log("✅  Borrowed 10 000 USDC");
 
   /* -------- here you would hedge or do whatever you like -------- */
@@ -80,7 +111,7 @@ import { sendAll } from "./util";
     { publicKey: user.publicKey },
     baseCfg
   );
-  await sendAll(repay, connection, user);
+  await sendAll(repay, connection, user, lookupTables);
   console.log("✅  Repaid USDC debt");
 
   /* ---------------- 4. withdraw all SOL collateral ------------- */
@@ -92,7 +123,11 @@ import { sendAll } from "./util";
     { publicKey: user.publicKey },
     baseCfg
   );
-  await sendAll(withdraw, connection, user);
+  await sendAll(withdraw, connection, user, lookupTables);
   console.log("✅  Withdrew collateral – cycle complete");
-})();
+})().catch((err) => {
+  // Including a borrow refused by `assertBorrowWithinHealthTarget`
+  console.error("❌", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
 
@@ -0,0 +1,120 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+
+/* ───────────── payload schemas ───────────── */
+
+/** A reserve as listed in `payload/main-market-*.json` and in the markets of `devnet-config.json` */
+export type ReservePayload = {
+    asset: string;
+    address: string;
+    collateralMintAddress: string;
+    collateralSupplyAddress: string;
+    liquidityAddress: string;
+    liquidityFeeReceiverAddress: string;
+    userBorrowCap?: string;
+    userSupplyCap?: string;
+};
+
+/** `payload/main-market-{mainnet,devnet}.json` */
+export type MarketPayload = {
+    name: string;
+    isPrimary: boolean;
+    description: string | null;
+    creator: string;
+    /** Missing on devnet, where the creator owns the market */
+    owner?: string;
+    address: string;
+    authorityAddress: string;
+    reserves: ReservePayload[];
+};
+
+/** `payload/devnet-config.json`, which also lists the mints and oracles of each asset */
+export type DevnetConfigPayload = {
+    programID: string;
+    assets: { name: string; symbol: string; decimals: number; mintAddress: string }[];
+    markets: MarketPayload[];
+    oracles: {
+        pythProgramID: string;
+        switchboardProgramID: string;
+        assets: { asset: string; priceAddress: string; switchboardFeedAddress: string }[];
+    };
+};
+
+/* ───────────── normalized ───────────── */
+
+/** Reserve data read from its account by `SolendMarketRegistry.refresh` */
+export type ReserveChainData = {
+    /** Slot the reserve was last refreshed on chain */
+    slot: number;
+    lendingMarket: PublicKey;
+    /** Percentages */
+    loanToValueRatio: number;
+    liquidationThreshold: number;
+    borrowRates: {
+        min: number;
+        optimal: number;
+        max: number;
+        optimalUtilization: number;
+    };
+    /** Base units of the liquidity mint */
+    depositLimit: BN;
+    borrowLimit: BN;
+    availableAmount: BN;
+    /** USD per token, as of `slot` (the reserve's last refresh, not the oracle's latest) */
+    marketPrice: number;
+    /** Liquidity base units per collateral (cToken) base unit, net of protocol fees */
+    collateralExchangeRate: number;
+    /** Scaled by 1e18, divide an obligation's borrow by the rate it was last updated with */
+    cumulativeBorrowRateWads: BN;
+    /** Multiplier on the value of borrows of this reserve, 1 for most */
+    borrowWeight: number;
+};
+
+export type ReserveAccount = {
+    asset: string;
+    address: PublicKey;
+    collateralMintAddress: PublicKey;
+    collateralSupplyAddress: PublicKey;
+    liquidityAddress: PublicKey;
+    liquidityFeeReceiverAddress: PublicKey;
+    /** From `devnet-config.json`, or from chain once refreshed */
+    mintAddress?: PublicKey;
+    decimals?: number;
+    pythOracle?: PublicKey;
+    switchboardOracle?: PublicKey;
+    /** UI units, as configured in the Solend UI */
+    userBorrowCap?: string;
+    userSupplyCap?: string;
+    chain?: ReserveChainData;
+};
+
+export type MarketAccount = {
+    name: string;
+    isPrimary: boolean;
+    address: PublicKey;
+    authorityAddress: PublicKey;
+    owner: PublicKey;
+    reserves: ReserveAccount[];
+};
+
+/* ───────────── SDK inputs ───────────── */
+
+/** What `SolendActionCore.build*Txns` take as the pool */
+export type InputPoolType = {
+    address: string;
+    owner: string;
+    name: string | null;
+    authorityAddress: string;
+    reserves: InputReserveType[];
+};
+
+export type InputReserveType = {
+    address: string;
+    liquidityAddress: string;
+    cTokenMint: string;
+    cTokenLiquidityAddress: string;
+    pythOracle: string;
+    switchboardOracle: string;
+    mintAddress: string;
+    liquidityFeeReceiverAddress: string;
+};
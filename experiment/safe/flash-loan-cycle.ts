@@ -1,31 +1,25 @@
 import {
-    Connection, Keypair, Transaction, sendAndConfirmTransaction, PublicKey
-  } from "@solana/web3.js";
-  import {
     flashBorrowReserveLiquidityInstruction,
     flashRepayReserveLiquidityInstruction,
-  } from "@solendprotocol/solend-sdk"; 
+} from "@solendprotocol/solend-sdk";
 
-  import wallet from "../dev-wallet.json"
-import { MainMarket } from "./dto/main-market";
-import { DEVNET_PROGRAM_ID } from "./util";
+import { createConnection, loadConfig } from "../config";
+import { COMPUTE_BUDGET_INSTRUCTIONS, sendTransactionOrThrow } from "../send-transaction";
+import { loadWallet } from "../wallet";
+import { SolendMarketRegistry } from "./market-registry";
   
   (async () => {
     // const connection = new Connection("https://api.mainnet-beta.solana.com");
     // const user = Keypair.fromSecretKey(/* ... */);
 
-    const user = Keypair.fromSecretKey(new Uint8Array(wallet.privateKey));
-    const connection = new Connection("https://api.mainnet-beta.solana.com");
+    const user = loadWallet().keypair;
+    const config = loadConfig({ defaultCluster: "mainnet-beta" });
+    const connection = createConnection(config);
 
-    const market = new MainMarket('devnet');
+    const registry = SolendMarketRegistry.forCluster(config.cluster);
+    const market = registry.getMarket();
 
-    const usdcReserve = market.getMarketReserveBySymbol('USDC');
-    
-    if (!usdcReserve) {
-      throw new Error('USDC reserve not found');
-    }
-
-    const usdcReserveAccount = market.toReserveAccount(usdcReserve);
+    const usdcReserveAccount = registry.getReserve('USDC');
   
     const flashAmount = 100_000 * 1e6; // 100k USDC (base units)
   
@@ -35,30 +29,31 @@ import { DEVNET_PROGRAM_ID } from "./util";
       usdcReserveAccount.liquidityAddress,
       user.publicKey,               // flash-loan destination ATA
       usdcReserveAccount.address,
-      market.getMarketAddress(),
-      DEVNET_PROGRAM_ID,
+      market.address,
+      registry.programId,
     );
 
     const flashRepayIx = flashRepayReserveLiquidityInstruction(
       flashAmount,
-      0,                            // no extra fee param in v2
+      COMPUTE_BUDGET_INSTRUCTIONS,  // index of the borrow, after the sender's compute budget ixs
       user.publicKey,
       usdcReserveAccount.liquidityAddress,
       usdcReserveAccount.liquidityFeeReceiverAddress,
-      market.getOwnerAddress(),  //hostFeeReceiver
+      market.owner,  //hostFeeReceiver
       usdcReserveAccount.address, // reserve
-      market.getMarketAddress(),
+      market.address,
       user.publicKey,
-      DEVNET_PROGRAM_ID,
+      registry.programId,
     );
   
     // 3. Bundle into one transaction (insert your arb logic between)
-    const tx = new Transaction()
-      .add(flashBorrowIx)
+    const instructions = [
+      flashBorrowIx,
       // --- INSERT Drift/Jupiter gap-trade instructions here ---
-      .add(flashRepayIx);
+      flashRepayIx,
+    ];
   
-    await sendAndConfirmTransaction(connection, tx, [user]);
-    console.log("Flash‑loan cycle complete — loan repaid in same tx");
+    const { signature } = await sendTransactionOrThrow(connection, instructions, { signers: [user] });
+    console.log("Flash‑loan cycle complete — loan repaid in same tx", signature);
   })();
   
\ No newline at end of file
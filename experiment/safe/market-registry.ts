@@ -0,0 +1,341 @@
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import { parseReserve } from "@solendprotocol/solend-sdk";
+import BN from "bn.js";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Cluster } from "../config";
+import {
+    DevnetConfigPayload,
+    InputPoolType,
+    InputReserveType,
+    MarketAccount,
+    MarketPayload,
+    ReserveAccount,
+    ReservePayload,
+} from "./dto/solend-market";
+import { MAINNET_PROGRAM_ID } from "./util";
+
+/*
+ * Every Solend market and reserve the toolkit knows about, from the three payload files:
+ *
+ *   main-market-mainnet.json   the mainnet main market
+ *   main-market-devnet.json    the devnet main market, with the user caps
+ *   devnet-config.json         every devnet market, plus the mint and oracles of each asset
+ *
+ * normalized into `MarketAccount` / `ReserveAccount`. The payloads are snapshots: `refresh` reads
+ * the reserves back from chain (mints, oracles, rates, limits) and `validate` reports where a
+ * snapshot no longer matches its accounts.
+ */
+
+const PAYLOAD_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "payload");
+
+// Solend's fixed point decimals are scaled by 1e18
+export const WAD = new BN("1000000000000000000");
+
+export function fromWad(value: BN) {
+    return Number(value.toString()) / 1e18;
+}
+
+// `getMultipleAccountsInfo` takes at most 100 keys
+const ACCOUNTS_PER_REQUEST = 100;
+
+export type SolendNetwork = "mainnet" | "devnet";
+
+export type ValidationIssue = {
+    market: string;
+    asset?: string;
+    account: PublicKey;
+    field: string;
+    expected: string;
+    actual: string;
+};
+
+function readPayload<T>(payloadDir: string, file: string): T {
+    return JSON.parse(fs.readFileSync(path.join(payloadDir, file), "utf8"));
+}
+
+function toReserveAccount(reserve: ReservePayload): ReserveAccount {
+    return {
+        asset: reserve.asset,
+        address: new PublicKey(reserve.address),
+        collateralMintAddress: new PublicKey(reserve.collateralMintAddress),
+        collateralSupplyAddress: new PublicKey(reserve.collateralSupplyAddress),
+        liquidityAddress: new PublicKey(reserve.liquidityAddress),
+        liquidityFeeReceiverAddress: new PublicKey(reserve.liquidityFeeReceiverAddress),
+        userBorrowCap: reserve.userBorrowCap,
+        userSupplyCap: reserve.userSupplyCap,
+    };
+}
+
+function toMarketAccount(market: MarketPayload): MarketAccount {
+    return {
+        name: market.name,
+        isPrimary: market.isPrimary,
+        address: new PublicKey(market.address),
+        authorityAddress: new PublicKey(market.authorityAddress),
+        owner: new PublicKey(market.owner ?? market.creator),
+        reserves: market.reserves.map(toReserveAccount),
+    };
+}
+
+// devnet-config.json lists every market and the assets' mints and oracles, main-market-devnet.json
+// adds the user caps of the main market's reserves
+function mergeDevnetMarkets(config: DevnetConfigPayload, mainMarket: MarketPayload) {
+    return config.markets.map((market) => {
+        const account = toMarketAccount(market);
+
+        account.reserves = account.reserves.map((reserve) => {
+            const asset = config.assets.find((a) => a.symbol === reserve.asset);
+            const oracle = config.oracles.assets.find((o) => o.asset === reserve.asset);
+            const caps = market.address === mainMarket.address
+                ? mainMarket.reserves.find((r) => r.address === reserve.address.toBase58())
+                : undefined;
+
+            return {
+                ...reserve,
+                mintAddress: asset && new PublicKey(asset.mintAddress),
+                decimals: asset?.decimals,
+                pythOracle: oracle && new PublicKey(oracle.priceAddress),
+                switchboardOracle: oracle && new PublicKey(oracle.switchboardFeedAddress),
+                userBorrowCap: reserve.userBorrowCap ?? caps?.userBorrowCap,
+                userSupplyCap: reserve.userSupplyCap ?? caps?.userSupplyCap,
+            };
+        });
+
+        return account;
+    });
+}
+
+export class SolendMarketRegistry {
+
+    public readonly programId: PublicKey;
+    private readonly _markets: MarketAccount[];
+
+    /** localnet is a mainnet fork, it gets the mainnet markets */
+    static forCluster(cluster: Cluster, payloadDir?: string) {
+        return new SolendMarketRegistry(cluster === "devnet" ? "devnet" : "mainnet", payloadDir);
+    }
+
+    constructor(
+        public readonly network: SolendNetwork,
+        payloadDir: string = PAYLOAD_DIR
+    ) {
+        if (network === "mainnet") {
+            this.programId = MAINNET_PROGRAM_ID;
+            this._markets = [toMarketAccount(readPayload(payloadDir, "main-market-mainnet.json"))];
+        } else {
+            const config = readPayload<DevnetConfigPayload>(payloadDir, "devnet-config.json");
+
+            this.programId = new PublicKey(config.programID);
+            this._markets = mergeDevnetMarkets(
+                config,
+                readPayload(payloadDir, "main-market-devnet.json")
+            );
+        }
+    }
+
+    public get markets(): MarketAccount[] {
+        return this._markets;
+    }
+
+    /** By case-insensitive name, the primary market by default */
+    public getMarket(name?: string): MarketAccount {
+        const market = name === undefined
+            ? this._markets.find((m) => m.isPrimary)
+            : this._markets.find((m) => m.name.toLowerCase() === name.toLowerCase());
+
+        if (!market) throw new Error(`Solend market '${name ?? "primary"}' not found on ${this.network}`);
+        return market;
+    }
+
+    public getReserve(symbol: string, marketName?: string): ReserveAccount {
+        const market = this.getMarket(marketName);
+        const reserve = market.reserves.find((r) => r.asset === symbol);
+
+        if (!reserve) throw new Error(`Reserve '${symbol}' not present in market '${market.name}'`);
+        return reserve;
+    }
+
+    public getReserveByAddress(address: PublicKey | string): ReserveAccount | undefined {
+        const key = address.toString();
+        return this._markets
+            .flatMap((m) => m.reserves)
+            .find((r) => r.address.toBase58() === key);
+    }
+
+    /* ───────────── chain ───────────── */
+
+    private async fetchAccounts(connection: Connection, keys: PublicKey[]) {
+        const infos: (AccountInfo<Buffer> | null)[] = [];
+
+        for (let i = 0; i < keys.length; i += ACCOUNTS_PER_REQUEST) {
+            infos.push(
+                ...(await connection.getMultipleAccountsInfo(keys.slice(i, i + ACCOUNTS_PER_REQUEST)))
+            );
+        }
+
+        return infos;
+    }
+
+    /**
+     * Reads the market's reserves (every market by default) and fills in their mint, oracles and
+     * `chain` data. Reserves whose account is gone are left as they are, `validate` reports them.
+     */
+    public async refresh(connection: Connection, marketName?: string) {
+        const markets = marketName === undefined ? this._markets : [this.getMarket(marketName)];
+        const reserves = markets.flatMap((m) => m.reserves);
+        const infos = await this.fetchAccounts(connection, reserves.map((r) => r.address));
+
+        reserves.forEach((reserve, i) => {
+            const info = infos[i];
+            const parsed = info && info.owner.equals(this.programId)
+                ? parseReserve(reserve.address, info)
+                : null;
+
+            if (!parsed) return;
+
+            const { lastUpdate, lendingMarket, liquidity, collateral, config } = parsed.info;
+            // What cToken holders own: the fees the protocol accrued on borrows are not theirs
+            const totalLiquidity = liquidity.availableAmount
+                .mul(WAD)
+                .add(liquidity.borrowedAmountWads)
+                .sub(liquidity.accumulatedProtocolFeesWads)
+                .div(WAD);
+
+            reserve.mintAddress = liquidity.mintPubkey;
+            reserve.decimals = liquidity.mintDecimals;
+            reserve.pythOracle = liquidity.pythOracle;
+            reserve.switchboardOracle = liquidity.switchboardOracle;
+            reserve.chain = {
+                slot: lastUpdate.slot.toNumber(),
+                lendingMarket,
+                loanToValueRatio: config.loanToValueRatio,
+                liquidationThreshold: config.liquidationThreshold,
+                borrowRates: {
+                    min: config.minBorrowRate,
+                    optimal: config.optimalBorrowRate,
+                    max: config.maxBorrowRate,
+                    optimalUtilization: config.optimalUtilizationRate,
+                },
+                depositLimit: config.depositLimit,
+                borrowLimit: config.borrowLimit,
+                availableAmount: liquidity.availableAmount,
+                marketPrice: fromWad(liquidity.marketPrice),
+                collateralExchangeRate: collateral.mintTotalSupply.isZero()
+                    ? 1
+                    : Number(totalLiquidity.toString()) / Number(collateral.mintTotalSupply.toString()),
+                cumulativeBorrowRateWads: liquidity.cumulativeBorrowRateWads,
+                borrowWeight: 1 + Number(config.addedBorrowWeightBPS.toString()) / 10_000,
+            };
+        });
+
+        return markets;
+    }
+
+    /**
+     * Compares the payloads against chain: market ownership and authority, and for every reserve
+     * its market, liquidity supply, collateral mint / supply, fee receiver and, where the payload
+     * lists them (devnet-config.json), the liquidity mint and oracles.
+     */
+    public async validate(connection: Connection): Promise<ValidationIssue[]> {
+        const issues: ValidationIssue[] = [];
+        const check = (
+            issue: Omit<ValidationIssue, "expected" | "actual">,
+            expected: PublicKey | string | undefined,
+            actual: PublicKey | string | undefined
+        ) => {
+            if (expected === undefined) return;
+            if (actual === undefined || expected.toString() !== actual.toString()) {
+                issues.push({ ...issue, expected: expected.toString(), actual: actual?.toString() ?? "missing" });
+            }
+        };
+
+        const marketInfos = await this.fetchAccounts(connection, this._markets.map((m) => m.address));
+
+        this._markets.forEach((market, i) => {
+            const [authority] = PublicKey.findProgramAddressSync(
+                [market.address.toBuffer()],
+                this.programId
+            );
+
+            check({ market: market.name, account: market.address, field: "owner" },
+                this.programId, marketInfos[i]?.owner);
+            check({ market: market.name, account: market.address, field: "authorityAddress" },
+                market.authorityAddress, authority);
+        });
+
+        const reserves = this._markets.flatMap((market) =>
+            market.reserves.map((reserve) => ({ market, reserve }))
+        );
+        const reserveInfos = await this.fetchAccounts(connection, reserves.map(({ reserve }) => reserve.address));
+
+        reserves.forEach(({ market, reserve }, i) => {
+            const info = reserveInfos[i];
+            const at = (field: string) => ({
+                market: market.name,
+                asset: reserve.asset,
+                account: reserve.address,
+                field,
+            });
+
+            check(at("owner"), this.programId, info?.owner);
+
+            const parsed = info && info.owner.equals(this.programId)
+                ? parseReserve(reserve.address, info)
+                : null;
+
+            if (!parsed) return;
+
+            const { lendingMarket, liquidity, collateral, config } = parsed.info;
+
+            check(at("lendingMarket"), market.address, lendingMarket);
+            check(at("liquidityAddress"), reserve.liquidityAddress, liquidity.supplyPubkey);
+            check(at("collateralMintAddress"), reserve.collateralMintAddress, collateral.mintPubkey);
+            check(at("collateralSupplyAddress"), reserve.collateralSupplyAddress, collateral.supplyPubkey);
+            check(at("liquidityFeeReceiverAddress"), reserve.liquidityFeeReceiverAddress, config.feeReceiver);
+            check(at("mintAddress"), reserve.mintAddress, liquidity.mintPubkey);
+            check(at("pythOracle"), reserve.pythOracle, liquidity.pythOracle);
+            check(at("switchboardOracle"), reserve.switchboardOracle, liquidity.switchboardOracle);
+        });
+
+        return issues;
+    }
+
+    /* ───────────── SDK inputs ───────────── */
+
+    /** Needs the mint and oracles: devnet-config.json has them, mainnet reserves need a `refresh` */
+    public toInputReserve(reserve: ReserveAccount): InputReserveType {
+        const { mintAddress, pythOracle, switchboardOracle } = reserve;
+
+        if (!mintAddress || !pythOracle || !switchboardOracle) {
+            throw new Error(`Reserve '${reserve.asset}' has no mint or oracles, refresh it first`);
+        }
+
+        return {
+            address: reserve.address.toBase58(),
+            liquidityAddress: reserve.liquidityAddress.toBase58(),
+            cTokenMint: reserve.collateralMintAddress.toBase58(),
+            cTokenLiquidityAddress: reserve.collateralSupplyAddress.toBase58(),
+            pythOracle: pythOracle.toBase58(),
+            switchboardOracle: switchboardOracle.toBase58(),
+            mintAddress: mintAddress.toBase58(),
+            liquidityFeeReceiverAddress: reserve.liquidityFeeReceiverAddress.toBase58(),
+        };
+    }
+
+    /** Only the reserves that can be converted, see `toInputReserve` */
+    public toInputPool(marketName?: string): InputPoolType {
+        const market = this.getMarket(marketName);
+
+        return {
+            address: market.address.toBase58(),
+            owner: this.programId.toBase58(),
+            name: market.name,
+            authorityAddress: market.authorityAddress.toBase58(),
+            reserves: market.reserves
+                .filter((r) => r.mintAddress && r.pythOracle && r.switchboardOracle)
+                .map((r) => this.toInputReserve(r)),
+        };
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Solend obligation health.
+ *
+ * USAGE
+ * -----
+ * tsx safe/obligation-health-cli.ts [--owner <wallet>] [--market <name>] [--health-target 1.5]
+ *                                   [--keypair <file>]
+ *
+ * Reports the deposits, borrows, borrow limit, liquidation threshold, health factor and the max
+ * additional borrow per reserve of `--owner` (the local wallet by default) in `--market` (the
+ * primary market by default). Accepts `--cluster <name>`, see `../config`.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { parseArgs } from "node:util";
+import { createConnection, loadConfig } from "../config";
+import { loadWallet } from "../wallet";
+import { SolendMarketRegistry } from "./market-registry";
+import {
+    DEFAULT_HEALTH_TARGET,
+    formatObligationHealth,
+    inspectObligation,
+    parseHealthTarget,
+} from "./obligation-health";
+
+const { values } = parseArgs({
+    options: {
+        owner: { type: "string" },
+        market: { type: "string" },
+        "health-target": { type: "string", default: String(DEFAULT_HEALTH_TARGET) },
+        keypair: { type: "string" },
+        cluster: { type: "string" },
+    },
+});
+
+(async () => {
+    const config = loadConfig({ defaultCluster: "mainnet-beta" });
+    const connection = createConnection(config);
+    const owner = values.owner
+        ? new PublicKey(values.owner)
+        : loadWallet(values.keypair).keypair.publicKey;
+
+    const health = await inspectObligation(
+        connection,
+        SolendMarketRegistry.forCluster(config.cluster),
+        owner,
+        { marketName: values.market, healthTarget: parseHealthTarget(values["health-target"]!) }
+    );
+
+    console.log(formatObligationHealth(health));
+})().catch((err) => {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -0,0 +1,239 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { parseObligation } from "@solendprotocol/solend-sdk";
+import BN from "bn.js";
+import { ReserveAccount, ReserveChainData } from "./dto/solend-market";
+import { SolendMarketRegistry } from "./market-registry";
+
+/*
+ * How far a wallet's Solend obligation is from liquidation, and how much more it can borrow.
+ *
+ * Values are recomputed from the reserve accounts (price, exchange rate and cumulative borrow rate)
+ * rather than taken from the obligation's cached values. Those reserve values are as of each
+ * reserve's last on-chain refresh (`chain.slot`), not live oracle prices, so on a reserve nobody
+ * touched for a while the report lags the market:
+ *
+ *   borrow limit           Σ deposit value × LTV                     what the program lets you borrow
+ *   liquidation threshold  Σ deposit value × liquidation threshold   liquidated above this
+ *   health factor          liquidation threshold / weighted borrows  1 is liquidation
+ *
+ * Borrows count at their reserve's borrow weight (> 1 for riskier assets) in both limits.
+ */
+
+export const DEFAULT_HEALTH_TARGET = 1.5;
+
+/** A health factor below 1 is liquidatable, so targets below it protect nothing */
+export function parseHealthTarget(value: string | number) {
+    const target = Number(value);
+
+    if (!Number.isFinite(target) || target < 1) {
+        throw new Error(`Invalid health target '${value}', expected a number >= 1`);
+    }
+
+    return target;
+}
+
+export type PositionHealth = {
+    asset: string;
+    reserve: PublicKey;
+    /** UI units of the liquidity mint */
+    amount: number;
+    /** USD */
+    value: number;
+};
+
+export type ReserveBorrowCapacity = {
+    asset: string;
+    reserve: PublicKey;
+    /** UI units: the most that keeps the obligation under its borrow limit and at `healthTarget` */
+    maxAdditionalBorrow: number;
+    /** UI units left in the reserve */
+    availableLiquidity: number;
+};
+
+export type ObligationHealth = {
+    owner: PublicKey;
+    market: string;
+    obligation: PublicKey;
+    /** False when the wallet never used the market, every value is then 0 */
+    exists: boolean;
+    deposits: PositionHealth[];
+    borrows: PositionHealth[];
+    /** USD */
+    depositedValue: number;
+    borrowedValue: number;
+    weightedBorrowedValue: number;
+    borrowLimit: number;
+    liquidationThreshold: number;
+    /** Infinity without borrows */
+    healthFactor: number;
+    healthTarget: number;
+    capacity: ReserveBorrowCapacity[];
+};
+
+/** The program derives one obligation per owner and market, seeded by the market address */
+export function obligationAddress(owner: PublicKey, lendingMarket: PublicKey, programId: PublicKey) {
+    return PublicKey.createWithSeed(owner, lendingMarket.toBase58().slice(0, 32), programId);
+}
+
+function toUiAmount(baseUnits: number, reserve: ReserveAccount) {
+    return baseUnits / 10 ** (reserve.decimals ?? 0);
+}
+
+function chainData(reserve: ReserveAccount): ReserveChainData {
+    if (!reserve.chain) throw new Error(`Reserve '${reserve.asset}' has no chain data, refresh it first`);
+    return reserve.chain;
+}
+
+export async function inspectObligation(
+    connection: Connection,
+    registry: SolendMarketRegistry,
+    owner: PublicKey,
+    { marketName, healthTarget = DEFAULT_HEALTH_TARGET }: { marketName?: string; healthTarget?: number } = {}
+): Promise<ObligationHealth> {
+    parseHealthTarget(healthTarget);
+
+    const market = registry.getMarket(marketName);
+    const obligation = await obligationAddress(owner, market.address, registry.programId);
+    const [info] = await Promise.all([
+        connection.getAccountInfo(obligation),
+        registry.refresh(connection, market.name),
+    ]);
+    const parsed = info && info.owner.equals(registry.programId)
+        ? parseObligation(obligation, info)
+        : null;
+
+    const reserveOf = (address: PublicKey) => {
+        const reserve = market.reserves.find((r) => r.address.equals(address));
+        if (!reserve) throw new Error(`Obligation ${obligation.toBase58()} uses unknown reserve ${address.toBase58()}`);
+        return reserve;
+    };
+
+    let borrowLimit = 0;
+    let liquidationThreshold = 0;
+    let weightedBorrowedValue = 0;
+
+    const deposits: PositionHealth[] = (parsed?.info.deposits ?? []).map(
+        (deposit: { depositReserve: PublicKey; depositedAmount: BN }) => {
+            const reserve = reserveOf(deposit.depositReserve);
+            const chain = chainData(reserve);
+            const amount = toUiAmount(
+                Number(deposit.depositedAmount.toString()) * chain.collateralExchangeRate,
+                reserve
+            );
+            const value = amount * chain.marketPrice;
+
+            borrowLimit += value * chain.loanToValueRatio / 100;
+            liquidationThreshold += value * chain.liquidationThreshold / 100;
+
+            return { asset: reserve.asset, reserve: reserve.address, amount, value };
+        }
+    );
+
+    const borrows: PositionHealth[] = (parsed?.info.borrows ?? []).map(
+        (borrow: { borrowReserve: PublicKey; borrowedAmountWads: BN; cumulativeBorrowRateWads: BN }) => {
+            const reserve = reserveOf(borrow.borrowReserve);
+            const chain = chainData(reserve);
+            // Interest accrued since the obligation was last refreshed
+            const owed = borrow.borrowedAmountWads
+                .mul(chain.cumulativeBorrowRateWads)
+                .div(borrow.cumulativeBorrowRateWads);
+            const amount = toUiAmount(Number(owed.toString()) / 1e18, reserve);
+            const value = amount * chain.marketPrice;
+
+            weightedBorrowedValue += value * chain.borrowWeight;
+
+            return { asset: reserve.asset, reserve: reserve.address, amount, value };
+        }
+    );
+
+    // USD of weighted borrows left before the borrow limit, or before health drops to the target
+    const headroom = Math.max(
+        0,
+        Math.min(borrowLimit, liquidationThreshold / healthTarget) - weightedBorrowedValue
+    );
+
+    const capacity = market.reserves
+        .filter((reserve) => reserve.chain && reserve.chain.marketPrice > 0)
+        .map((reserve) => {
+            const chain = chainData(reserve);
+            const availableLiquidity = toUiAmount(Number(chain.availableAmount.toString()), reserve);
+
+            return {
+                asset: reserve.asset,
+                reserve: reserve.address,
+                maxAdditionalBorrow: Math.min(
+                    headroom / (chain.marketPrice * chain.borrowWeight),
+                    availableLiquidity
+                ),
+                availableLiquidity,
+            };
+        });
+
+    return {
+        owner,
+        market: market.name,
+        obligation,
+        exists: parsed !== null,
+        deposits,
+        borrows,
+        depositedValue: deposits.reduce((sum, d) => sum + d.value, 0),
+        borrowedValue: borrows.reduce((sum, b) => sum + b.value, 0),
+        weightedBorrowedValue,
+        borrowLimit,
+        liquidationThreshold,
+        healthFactor: weightedBorrowedValue === 0 ? Infinity : liquidationThreshold / weightedBorrowedValue,
+        healthTarget,
+        capacity,
+    };
+}
+
+/**
+ * Throws unless borrowing `amount` (UI units) of `symbol` keeps the obligation under its borrow
+ * limit and at or above its health target.
+ */
+export function assertBorrowWithinHealthTarget(health: ObligationHealth, symbol: string, amount: number) {
+    const capacity = health.capacity.find((c) => c.asset === symbol);
+
+    if (!capacity) {
+        throw new Error(`No borrowable '${symbol}' reserve in market '${health.market}'`);
+    }
+
+    // Written so a NaN capacity (or amount) refuses the borrow
+    if (!(amount <= capacity.maxAdditionalBorrow)) {
+        throw new Error(
+            `Borrowing ${amount} ${symbol} exceeds the ${capacity.maxAdditionalBorrow.toFixed(6)} ${symbol} ` +
+            `allowed at a health target of ${health.healthTarget} ` +
+            `(health factor ${formatHealthFactor(health.healthFactor)}, ` +
+            `borrow limit $${health.borrowLimit.toFixed(2)}, borrowed $${health.weightedBorrowedValue.toFixed(2)})`
+        );
+    }
+}
+
+export function formatHealthFactor(healthFactor: number) {
+    return Number.isFinite(healthFactor) ? healthFactor.toFixed(3) : "∞";
+}
+
+export function formatObligationHealth(health: ObligationHealth) {
+    const usd = (value: number) => `$${value.toFixed(2)}`;
+    const position = ({ asset, amount, value }: PositionHealth) =>
+        `     ${asset.padEnd(10)} ${amount.toFixed(6).padStart(20)}  ${usd(value).padStart(14)}`;
+
+    if (!health.exists) {
+        return `🔎 ${health.owner.toBase58()} has no obligation in '${health.market}' (${health.obligation.toBase58()})`;
+    }
+
+    return [
+        `🔎 Obligation ${health.obligation.toBase58()} in '${health.market}'`,
+        `   Deposits                ${usd(health.depositedValue)}`,
+        ...health.deposits.map(position),
+        `   Borrows                 ${usd(health.borrowedValue)} (weighted ${usd(health.weightedBorrowedValue)})`,
+        ...health.borrows.map(position),
+        `   Borrow limit            ${usd(health.borrowLimit)}`,
+        `   Liquidation threshold   ${usd(health.liquidationThreshold)}`,
+        `   Health factor           ${formatHealthFactor(health.healthFactor)} (target ${health.healthTarget})`,
+        `   Max additional borrow`,
+        ...health.capacity
+            .filter((c) => c.maxAdditionalBorrow > 0)
+            .map((c) => `     ${c.asset.padEnd(10)} ${c.maxAdditionalBorrow.toFixed(6).padStart(20)}`),
+    ].join("\n");
+}
@@ -0,0 +1,44 @@
+/**
+ * Solend payload validation.
+ *
+ * USAGE
+ * -----
+ * tsx safe/solend-validate.ts [--cluster devnet]
+ *
+ * Checks the markets and reserves of the cluster's `payload/` files against their accounts on
+ * chain (see `SolendMarketRegistry.validate`), prints every mismatch and exits with code 1 when
+ * there is any, so a stale payload fails CI rather than a transaction.
+ */
+
+import { parseArgs } from "node:util";
+import { createConnection, loadConfig } from "../config";
+import { SolendMarketRegistry } from "./market-registry";
+
+parseArgs({
+    options: {
+        cluster: { type: "string" },
+    },
+});
+
+(async () => {
+    const config = loadConfig({ defaultCluster: "mainnet-beta" });
+    const registry = SolendMarketRegistry.forCluster(config.cluster);
+    const issues = await registry.validate(createConnection(config));
+
+    if (issues.length === 0) {
+        console.log(`✅ ${registry.markets.length} markets match ${config.cluster}`);
+        return;
+    }
+
+    for (const { market, asset, account, field, expected, actual } of issues) {
+        console.log(
+            `❌ ${market}${asset ? ` ${asset}` : ""} ${account.toBase58()} ${field}: ` +
+            `expected ${expected}, got ${actual}`
+        );
+    }
+    console.log(`\n${issues.length} mismatches`);
+    process.exit(1);
+})().catch((err) => {
+    console.error("❌", err instanceof Error ? err.message : err);
+    process.exit(1);
+});
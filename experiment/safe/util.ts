@@ -1,7 +1,8 @@
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { AddressLookupTableAccount, Connection, Keypair, PublicKey } from "@solana/web3.js";
 import {
     SolendActionCore as SolendAction
 } from "@solendprotocol/solend-sdk";
+import { sendVersionedTransactionOrThrow } from "../send-transaction";
 
 export const MAINNET_PROGRAM_ID = new PublicKey("So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo");
 export const DEVNET_PROGRAM_ID = new PublicKey("ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx");
@@ -11,10 +12,16 @@ export const DEVNET_PROGRAM_ID = new PublicKey("ALend7Ketfx5bxh6ghsCDXAoDrhvEmsX
 export async function sendAll(
     action: SolendAction,
     connection: Connection,
-    user: Keypair
+    user: Keypair,
+    // The `solend` table of `LookupTableRegistry`, for the reserve accounts
+    lookupTables: AddressLookupTableAccount[] = []
   ) {
-    const vtx = await action.getVersionedTransaction(); // returns vtx[]
-    await vtx.sign([user]);
-    const txid = await connection.sendTransaction(vtx, { maxRetries: 5 });
-    console.log("   ✅ - Transaction sent to network", txid);
-  }
\ No newline at end of file
+    const vtx = await action.getVersionedTransaction();
+    const { signature } = await sendVersionedTransactionOrThrow(connection, vtx, {
+      signers: [user],
+      lookupTables,
+    });
+
+    console.log("   ✅ - Transaction confirmed", signature);
+    return signature;
+  }
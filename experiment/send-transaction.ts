@@ -0,0 +1,356 @@
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Signer,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { decodeTransactionError, type DecodedTransactionError } from "./program-errors";
+
+// The one way the toolkit sends transactions:
+//
+//   1. simulate the instructions, to fail fast (with the program's error) and measure compute units
+//   2. set the compute unit limit to what was used plus headroom, instead of the 200k per
+//      instruction default that overpays priority fees, or a guess that runs out
+//   3. price the compute units from `getRecentPrioritizationFees` for the accounts the transaction
+//      write-locks, which is what the fee market competes on
+//   4. sign and send, rebroadcasting every couple of seconds (RPC nodes drop transactions under
+//      load) until it confirms or its blockhash expires
+//
+// Failures come back as a result rather than an exception, decoded by `./program-errors`: the
+// failing instruction's index (in the caller's `instructions`, the compute budget ones are not
+// counted), the program's error name and message, and that instruction's logs. The `*OrThrow`
+// variants throw that description instead, for callers that can only give up.
+
+// Solana's per transaction compute unit cap
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+export type PriorityFee =
+  // Percentile of the recent fees paid for the write-locked accounts, 0-100
+  | { percentile: number; minMicroLamports?: number; maxMicroLamports?: number }
+  | { microLamports: number };
+
+export type SendTransactionOptions = {
+  // The first one pays the fees
+  signers: Signer[];
+  // Only the ones the instructions use are compiled in, see `selectLookupTables`
+  lookupTables?: AddressLookupTableAccount[];
+  // Multiplier on the simulated compute units
+  computeUnitMargin?: number;
+  priorityFee?: PriorityFee;
+  commitment?: Commitment;
+  rebroadcastIntervalMs?: number;
+};
+
+export type SendTransactionResult = {
+  // `simulation-failed` transactions are never sent, `expired` ones never landed
+  status: "confirmed" | "failed" | "simulation-failed" | "expired";
+  signature?: string;
+  slot?: number;
+  error?: DecodedTransactionError;
+  logs: string[];
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+};
+
+export type ConfirmedTransactionResult = SendTransactionResult & {
+  status: "confirmed";
+  signature: string;
+};
+
+export const DEFAULT_PRIORITY_FEE: PriorityFee = {
+  percentile: 75,
+  minMicroLamports: 1_000,
+  maxMicroLamports: 2_000_000,
+};
+
+// The compute budget instructions are prepended, so the caller's instruction `i` is `i + 2`.
+// Instructions that refer to another by index (Solend's flash repay) must add it.
+export const COMPUTE_BUDGET_INSTRUCTIONS = 2;
+
+export function describeTransactionFailure(result: SendTransactionResult) {
+  const what = result.signature ? `Transaction ${result.signature}` : "Transaction";
+
+  const logs = result.error?.logs ?? result.logs;
+
+  return result.status === "expired"
+    ? `${what} expired before it was confirmed`
+    : `${what} ${result.status}: ${result.error?.message}\n${logs.join("\n")}`;
+}
+
+function assertConfirmed(
+  result: SendTransactionResult,
+): ConfirmedTransactionResult {
+  if (result.status !== "confirmed") {
+    throw new Error(describeTransactionFailure(result));
+  }
+
+  return result as ConfirmedTransactionResult;
+}
+
+// Only the tables that hold at least one of the message's non-signer accounts, every extra table
+// costs 34 bytes for nothing. Invoked programs are left out, they can't be loaded from a table.
+export function selectLookupTables(
+  instructions: TransactionInstruction[],
+  tables: AddressLookupTableAccount[],
+) {
+  const used = new Set(
+    instructions.flatMap(({ keys }) =>
+      keys
+        .filter(({ isSigner }) => !isSigner)
+        .map(({ pubkey }) => pubkey.toBase58()),
+    ),
+  );
+
+  return tables.filter((table) =>
+    table.state.addresses.some((address) => used.has(address.toBase58())),
+  );
+}
+
+function withoutComputeBudget(instructions: TransactionInstruction[]) {
+  return instructions.filter(
+    ({ programId }) => !programId.equals(ComputeBudgetProgram.programId),
+  );
+}
+
+function buildTransaction(
+  payerKey: PublicKey,
+  recentBlockhash: string,
+  instructions: TransactionInstruction[],
+  { units, microLamports }: { units: number; microLamports: number },
+  lookupTables: AddressLookupTableAccount[],
+) {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey,
+      recentBlockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+        ...instructions,
+      ],
+    }).compileToV0Message(selectLookupTables(instructions, lookupTables)),
+  );
+}
+
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  priorityFee: PriorityFee = DEFAULT_PRIORITY_FEE,
+) {
+  if ("microLamports" in priorityFee) return priorityFee.microLamports;
+
+  const { percentile, minMicroLamports = 0, maxMicroLamports } = priorityFee;
+  // One entry per recent slot (up to 150), the accounts' max fee in that slot
+  const fees = (
+    await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    })
+  )
+    .map(({ prioritizationFee }) => prioritizationFee)
+    .sort((a, b) => a - b);
+
+  const estimate =
+    fees.length === 0
+      ? 0
+      : fees[Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))];
+
+  return Math.min(
+    Math.max(estimate, minMicroLamports),
+    maxMicroLamports ?? Number.MAX_SAFE_INTEGER,
+  );
+}
+
+async function waitForConfirmation(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  signature: string,
+  lastValidBlockHeight: number,
+  commitment: Commitment,
+  rebroadcastIntervalMs: number,
+) {
+  const raw = transaction.serialize();
+
+  for (;;) {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+
+    if (
+      status &&
+      (status.err ||
+        status.confirmationStatus === commitment ||
+        status.confirmationStatus === "finalized")
+    ) {
+      return status;
+    }
+
+    if ((await connection.getBlockHeight("confirmed")) > lastValidBlockHeight) {
+      return null;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, rebroadcastIntervalMs));
+    // Already processed transactions are deduplicated by signature, resending is harmless
+    await connection
+      .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+      .catch(() => undefined);
+  }
+}
+
+export async function sendTransaction(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  {
+    signers,
+    lookupTables = [],
+    computeUnitMargin = 1.1,
+    priorityFee = DEFAULT_PRIORITY_FEE,
+    commitment = "confirmed",
+    rebroadcastIntervalMs = 2_000,
+  }: SendTransactionOptions,
+): Promise<SendTransactionResult> {
+  const payer = signers[0].publicKey;
+  const ixs = withoutComputeBudget(instructions);
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash(commitment);
+
+  // Simulated with the max limit and a placeholder price, so the budget instructions are measured
+  const simulation = await connection.simulateTransaction(
+    buildTransaction(
+      payer,
+      blockhash,
+      ixs,
+      { units: MAX_COMPUTE_UNITS, microLamports: 1 },
+      lookupTables,
+    ),
+    { sigVerify: false, replaceRecentBlockhash: true, commitment },
+  );
+  const simulationLogs = simulation.value.logs ?? [];
+
+  if (simulation.value.err) {
+    return {
+      status: "simulation-failed",
+      error: decodeTransactionError(simulation.value.err, {
+        logs: simulationLogs,
+        instructions: ixs,
+        instructionOffset: COMPUTE_BUDGET_INSTRUCTIONS,
+      }),
+      logs: simulationLogs,
+      computeUnitLimit: MAX_COMPUTE_UNITS,
+      priorityFeeMicroLamports: 0,
+    };
+  }
+
+  const computeUnitLimit = Math.min(
+    Math.ceil((simulation.value.unitsConsumed ?? MAX_COMPUTE_UNITS) * computeUnitMargin),
+    MAX_COMPUTE_UNITS,
+  );
+  const writableAccounts = ixs.flatMap(({ keys }) =>
+    keys.filter(({ isWritable }) => isWritable).map(({ pubkey }) => pubkey),
+  );
+  const priorityFeeMicroLamports = await estimatePriorityFee(
+    connection,
+    // The RPC caps the filter at 128 accounts
+    [...new Map(writableAccounts.map((a) => [a.toBase58(), a])).values()].slice(0, 128),
+    priorityFee,
+  );
+
+  const transaction = buildTransaction(
+    payer,
+    blockhash,
+    ixs,
+    { units: computeUnitLimit, microLamports: priorityFeeMicroLamports },
+    lookupTables,
+  );
+  transaction.sign(signers);
+
+  // Preflight would only repeat the simulation above
+  const signature = await connection.sendRawTransaction(
+    transaction.serialize(),
+    { skipPreflight: true, maxRetries: 0 },
+  );
+  const status = await waitForConfirmation(
+    connection,
+    transaction,
+    signature,
+    lastValidBlockHeight,
+    commitment,
+    rebroadcastIntervalMs,
+  );
+  const result = { signature, computeUnitLimit, priorityFeeMicroLamports };
+
+  if (!status) {
+    return { ...result, status: "expired", logs: [] };
+  }
+
+  if (!status.err) {
+    return { ...result, status: "confirmed", slot: status.slot, logs: [] };
+  }
+
+  const landed = await connection.getTransaction(signature, {
+    commitment: commitment === "finalized" ? "finalized" : "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  const logs = landed?.meta?.logMessages ?? [];
+
+  return {
+    ...result,
+    status: "failed",
+    slot: status.slot,
+    error: decodeTransactionError(status.err, {
+      logs,
+      instructions: ixs,
+      instructionOffset: COMPUTE_BUDGET_INSTRUCTIONS,
+    }),
+    logs,
+  };
+}
+
+// For transactions built elsewhere (SDKs, swap APIs): resolves their lookup tables and sends the
+// instructions again through `sendTransaction`, which replaces their compute budget instructions
+export async function sendVersionedTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  options: SendTransactionOptions,
+) {
+  const lookupTables = await Promise.all(
+    transaction.message.addressTableLookups.map(async ({ accountKey }) => {
+      const { value } = await connection.getAddressLookupTable(accountKey);
+
+      if (!value) {
+        throw new Error(`Lookup table ${accountKey.toBase58()} not found`);
+      }
+
+      return value;
+    }),
+  );
+  const { instructions } = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  });
+
+  return sendTransaction(connection, instructions, {
+    ...options,
+    lookupTables: [...lookupTables, ...(options.lookupTables ?? [])],
+  });
+}
+
+export async function sendTransactionOrThrow(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: SendTransactionOptions,
+) {
+  return assertConfirmed(await sendTransaction(connection, instructions, options));
+}
+
+export async function sendVersionedTransactionOrThrow(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  options: SendTransactionOptions,
+) {
+  return assertConfirmed(
+    await sendVersionedTransaction(connection, transaction, options),
+  );
+}
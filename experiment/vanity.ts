@@ -0,0 +1,227 @@
+import { Keypair } from "@solana/web3.js";
+import fs from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { toWalletFile } from "./wallet";
+
+// Vanity address grinding and batch keypair generation for throwaway test wallets.
+//
+// Grinding is brute force: every extra base58 character multiplies the expected attempts by 58
+// (~34 with `ignoreCase`), so anything past 4-5 characters takes minutes to hours. The workers run
+// plain JS (`eval`) so they work the same under tsx, ts-node or a bundle.
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export type VanityPattern = {
+  prefix?: string;
+  suffix?: string;
+  ignoreCase?: boolean;
+};
+
+export type VanityResult = {
+  keypair: Keypair;
+  attempts: number;
+  elapsedMs: number;
+};
+
+export type BatchManifestEntry = {
+  index: number;
+  publicKey: string;
+  file: string;
+};
+
+export function validateVanityPattern({
+  prefix = "",
+  suffix = "",
+}: VanityPattern) {
+  if (!prefix && !suffix) {
+    throw new Error("Vanity pattern needs a prefix and / or a suffix");
+  }
+
+  const invalid = [...prefix, ...suffix].filter(
+    (char) => !BASE58_ALPHABET.includes(char),
+  );
+
+  if (invalid.length > 0) {
+    throw new Error(
+      `Not in the base58 alphabet (no 0, O, I or l): ${[...new Set(invalid)].join(", ")}`,
+    );
+  }
+}
+
+function assertPositiveInteger(value: number, name: string) {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got ${value}`);
+  }
+}
+
+export function estimateVanityAttempts({
+  prefix = "",
+  suffix = "",
+  ignoreCase = false,
+}: VanityPattern) {
+  // Most letters exist in both cases, so a case-insensitive character matches ~1 in 34 addresses
+  return Math.pow(ignoreCase ? 34 : 58, prefix.length + suffix.length);
+}
+
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { Keypair } = require(workerData.web3Path);
+const { prefix, suffix, ignoreCase, progressEvery } = workerData;
+const normalize = (value) => (ignoreCase ? value.toLowerCase() : value);
+const wantedPrefix = normalize(prefix);
+const wantedSuffix = normalize(suffix);
+let attempts = 0;
+
+for (;;) {
+  const keypair = Keypair.generate();
+  const address = normalize(keypair.publicKey.toBase58());
+  attempts++;
+
+  if (address.startsWith(wantedPrefix) && address.endsWith(wantedSuffix)) {
+    parentPort.postMessage({ type: "found", attempts, secretKey: Array.from(keypair.secretKey) });
+    break;
+  }
+
+  if (attempts % progressEvery === 0) {
+    parentPort.postMessage({ type: "progress", attempts });
+  }
+}
+`;
+
+export function grindVanityKeypair(
+  pattern: VanityPattern,
+  {
+    threads = Math.max(os.availableParallelism() - 1, 1),
+    timeoutMs,
+    onProgress,
+  }: {
+    threads?: number;
+    timeoutMs?: number;
+    // Total attempts across the workers so far
+    onProgress?: (attempts: number) => void;
+  } = {},
+): Promise<VanityResult> {
+  validateVanityPattern(pattern);
+  // `new Array(threads)` throws on fractions, and no worker at all would never settle
+  assertPositiveInteger(threads, "threads");
+
+  const startedAt = Date.now();
+  const progressEvery = 10_000;
+  const workerData = {
+    web3Path: createRequire(import.meta.url).resolve("@solana/web3.js"),
+    prefix: pattern.prefix ?? "",
+    suffix: pattern.suffix ?? "",
+    ignoreCase: pattern.ignoreCase ?? false,
+    progressEvery,
+  };
+
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    const workerAttempts = new Array<number>(threads).fill(0);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+
+      settled = true;
+      clearTimeout(timer);
+      workers.forEach((worker) => worker.terminate());
+      settle();
+    };
+
+    for (let index = 0; index < threads; index++) {
+      const worker = new Worker(WORKER_SOURCE, { eval: true, workerData });
+
+      worker.on("message", (message) => {
+        workerAttempts[index] = message.attempts;
+        const attempts = workerAttempts.reduce((sum, value) => sum + value, 0);
+
+        if (message.type === "found") {
+          finish(() =>
+            resolve({
+              keypair: Keypair.fromSecretKey(
+                Uint8Array.from(message.secretKey),
+              ),
+              attempts,
+              elapsedMs: Date.now() - startedAt,
+            }),
+          );
+        } else {
+          onProgress?.(attempts);
+        }
+      });
+      worker.on("error", (err) => finish(() => reject(err)));
+      workers.push(worker);
+    }
+
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () =>
+          finish(() =>
+            reject(new Error(`No vanity address found in ${timeoutMs}ms`)),
+          ),
+        timeoutMs,
+      );
+    }
+  });
+}
+
+// Writes `count` wallet files (ground for `pattern` when given) into `directory` and indexes them in
+// its `manifest.json`, appending to the manifest of a previous batch. Wallet files are never
+// overwritten.
+export async function generateKeypairBatch(
+  count: number,
+  directory: string,
+  {
+    pattern,
+    threads,
+    onKeypair,
+  }: {
+    pattern?: VanityPattern;
+    threads?: number;
+    onKeypair?: (entry: BatchManifestEntry) => void;
+  } = {},
+) {
+  assertPositiveInteger(count, "count");
+  if (threads !== undefined) assertPositiveInteger(threads, "threads");
+  fs.mkdirSync(directory, { recursive: true });
+
+  const manifestPath = path.join(directory, "manifest.json");
+  const manifest: BatchManifestEntry[] = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, "utf8")).keypairs
+    : [];
+  const firstIndex = manifest.length;
+
+  for (let index = firstIndex; index < firstIndex + count; index++) {
+    const keypair = pattern
+      ? (await grindVanityKeypair(pattern, { threads })).keypair
+      : Keypair.generate();
+    const publicKey = keypair.publicKey.toBase58();
+    const file = path.join(directory, `${publicKey}.json`);
+
+    fs.writeFileSync(file, JSON.stringify(toWalletFile(keypair), null, 2), {
+      flag: "wx",
+      mode: 0o600,
+    });
+
+    const entry = { index, publicKey, file: path.basename(file) };
+    manifest.push(entry);
+    onKeypair?.(entry);
+  }
+
+  fs.writeFileSync(
+    manifestPath,
+    JSON.stringify(
+      { updatedAt: new Date().toISOString(), keypairs: manifest },
+      null,
+      2,
+    ),
+  );
+
+  return { manifestPath, keypairs: manifest.slice(firstIndex) };
+}
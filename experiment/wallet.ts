@@ -0,0 +1,146 @@
+import { Wallet } from "@coral-xyz/anchor";
+import {
+  Context,
+  createSignerFromKeypair,
+  Signer as UmiSigner,
+} from "@metaplex-foundation/umi";
+import { fromWeb3JsKeypair } from "@metaplex-foundation/umi-web3js-adapters";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import fs from "fs";
+import { loadConfig } from "./config";
+import { isKeystore, unlockKeystore } from "./keystore";
+
+// Single keypair loader for the toolkit. Accepts, as a file or inline:
+//
+//   - the Solana CLI format, a JSON array of the 64 secret key bytes
+//   - our wallet file, `{ "privateKey": number[] | base58, "publicKey": base58 }`
+//   - a base58 encoded secret key (what Phantom / Solflare export)
+//   - a passphrase encrypted keystore (see `./keystore`)
+//
+// When a `publicKey` is stored next to the secret key it has to match the one derived from it, so a
+// hand-edited or mixed-up wallet file fails loudly instead of signing with an unexpected key.
+//
+// The solana-starter scripts keep importing their `wba-wallet.json`: that package is CommonJS run by
+// ts-node on Umi 0.8, and can't load this ESM module (`./config` needs `import.meta.url`) or mix
+// its Umi signers with ours.
+
+export const SECRET_KEY_ENV = "SOLANA_SECRET_KEY";
+
+// `privateKey` / `publicKey` is the format written by `generateNewKeypair` and `keygen.ts`
+export type WalletFile = {
+  privateKey: number[];
+  publicKey: string;
+};
+
+export type LoadedWallet = {
+  keypair: Keypair;
+  wallet: Wallet;
+  // Where the key came from, for logs: a file path or the env var name
+  source: string;
+  // Umi signers are bound to the Umi instance's eddsa implementation
+  toUmiSigner: (umi: Pick<Context, "eddsa">) => UmiSigner;
+};
+
+export function toWalletFile(keypair: Keypair): WalletFile {
+  return {
+    privateKey: Array.from(keypair.secretKey),
+    publicKey: keypair.publicKey.toBase58(),
+  };
+}
+
+// Parses any of the supported formats, `source` only shows up in error messages. Keystores are
+// unlocked with `SOLANA_KEYSTORE_PASSPHRASE` from `env`, or a terminal prompt
+export function parseKeypair(
+  contents: string,
+  source = "secret key",
+  { env = process.env }: { env?: NodeJS.ProcessEnv } = {},
+) {
+  const text = contents.trim();
+  let secretKey: Uint8Array;
+  let expectedPublicKey: string | undefined;
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    const parsed = JSON.parse(text);
+
+    if (isKeystore(parsed)) {
+      return unlockKeystore(parsed, env);
+    }
+
+    if (Array.isArray(parsed)) {
+      secretKey = Uint8Array.from(parsed);
+    } else if (parsed && parsed.privateKey !== undefined) {
+      secretKey =
+        typeof parsed.privateKey === "string"
+          ? bs58.decode(parsed.privateKey)
+          : Uint8Array.from(parsed.privateKey);
+      expectedPublicKey = parsed.publicKey;
+    } else {
+      throw new Error(`${source}: expected a byte array or a \`privateKey\``);
+    }
+  } else {
+    secretKey = bs58.decode(text);
+  }
+
+  if (secretKey.length !== 64) {
+    throw new Error(
+      `${source}: expected a 64 byte secret key, got ${secretKey.length} bytes`,
+    );
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+
+  if (expectedPublicKey && expectedPublicKey !== keypair.publicKey.toBase58()) {
+    throw new Error(
+      `${source}: stored publicKey ${expectedPublicKey} does not match the secret key's ${keypair.publicKey.toBase58()}`,
+    );
+  }
+
+  return keypair;
+}
+
+export function readKeypairFile(
+  filePath: string,
+  options?: { env?: NodeJS.ProcessEnv },
+) {
+  return parseKeypair(fs.readFileSync(filePath, "utf8"), filePath, options);
+}
+
+function toLoadedWallet(keypair: Keypair, source: string): LoadedWallet {
+  return {
+    keypair,
+    wallet: new Wallet(keypair),
+    source,
+    toUmiSigner: (umi) =>
+      createSignerFromKeypair(umi, fromWeb3JsKeypair(keypair)),
+  };
+}
+
+// `source` is a file path or an inline key. Without it the key comes from `SOLANA_SECRET_KEY`, then
+// from the configured keypair file (`KEYPAIR` / `surfpool-config.yml`, see `./config`)
+export function loadWallet(
+  source?: string,
+  { env = process.env }: { env?: NodeJS.ProcessEnv } = {},
+): LoadedWallet {
+  if (source !== undefined) {
+    return fs.existsSync(source)
+      ? toLoadedWallet(readKeypairFile(source, { env }), source)
+      : toLoadedWallet(
+          parseKeypair(source, "inline secret key", { env }),
+          "inline secret key",
+        );
+  }
+
+  const inline = env[SECRET_KEY_ENV];
+
+  if (inline) {
+    return toLoadedWallet(
+      parseKeypair(inline, SECRET_KEY_ENV, { env }),
+      SECRET_KEY_ENV,
+    );
+  }
+
+  const { keypairPath } = loadConfig({ env });
+
+  return toLoadedWallet(readKeypairFile(keypairPath, { env }), keypairPath);
+}
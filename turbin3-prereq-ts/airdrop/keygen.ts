@@ -1,132 +1,324 @@
-import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+/**
+ *  Solana wallet tool.
+ *
+ *  USAGE
+ *  -----
+ *  yarn keygen                                             interactive menu
+ *  yarn keygen generate [--out dev-wallet-new.json] [--prefix <base58>] [--suffix <base58>] [--threads <n>]
+ *  yarn keygen batch --count <n> --dir <directory> [--prefix <base58>] [--suffix <base58>] [--threads <n>]
+ *  yarn keygen to-base58 [--file dev-wallet.json]
+ *  yarn keygen from-base58 --key <base58> [--out Turbin3-wallet.json]
+ *  yarn keygen from-bytes --bytes '[12,34,...]' [--out Turbin3-wallet.json]
+ *  yarn keygen view [--file dev-wallet.json]
+ *
+ *  Subcommands print a single JSON object on stdout; failures print `{"error": "..."}` on stderr and
+ *  exit with code 1.
+ *
+ *  `--prefix` / `--suffix` grind for a vanity address on worker threads (each extra character makes
+ *  it ~58x slower); `batch` writes throwaway wallets into a directory, indexed by its `manifest.json`.
+ */
+
+import { Connection, Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import bs58 from 'bs58'
 import * as prompt from 'prompt-sync'
 import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { Worker } from 'worker_threads'
 
 const input = prompt.default()
 
-function displayMenu() {
-    console.log("\nSolana Wallet Tool");
-    console.log("1. Generate new keypair");
-    console.log("2. Decode keypair file to base58");
-    console.log("3. Convert base58 to keypair JSON");
-    console.log("4. View dev wallet");
-    console.log("5. View Turbin3 wallet");
-    console.log("6. Create Keypair from Binary");
-    console.log("7. Exit");
-    return input("Select an option (1-5): ");
-}
-
-function createKeypairFromBinary() {
-    const binaryKey = input("\nEnter binary secret key: ")
-
-    const binaryKeyArray = JSON.parse(binaryKey)
-    const secretKey = new Uint8Array(binaryKeyArray)
-    const kp = Keypair.fromSecretKey(secretKey)
+/* Operations, shared by the menu and the subcommands */
+
+function writeWalletFile(filename: string, kp: Keypair, options?: fs.WriteFileOptions) {
     const walletFile = {
-        privateKey: Array.from(secretKey),
+        privateKey: Array.from(kp.secretKey),
         publicKey: kp.publicKey.toBase58()
     }
-    
-    fs.writeFileSync('./Turbin3-wallet.json', JSON.stringify(walletFile, null, 2))
-    console.log(`\nWallet converted and saved!`)
-    console.log(`Public Key: ${kp.publicKey.toBase58()}`)
+
+    fs.writeFileSync(filename, JSON.stringify(walletFile, null, 2), options)
+    return { publicKey: kp.publicKey.toBase58(), file: filename }
 }
 
-function generateNewKeypair() {
-    const kp = Keypair.generate()
-    const walletFile = {
-        privateKey: Array.from(kp.secretKey),
-        publicKey: kp.publicKey.toBase58()
+function readWalletFile(filename: string) {
+    const walletData = JSON.parse(fs.readFileSync(filename, 'utf-8'))
+    const kp = Keypair.fromSecretKey(new Uint8Array(walletData.privateKey))
+
+    if (walletData.publicKey && walletData.publicKey !== kp.publicKey.toBase58()) {
+        throw new Error(`${filename}: publicKey does not match the private key`)
     }
-    
-    fs.writeFileSync('./dev-wallet-new.json', JSON.stringify(walletFile, null, 2))
-    console.log(`\nNew Solana wallet generated!`)
-    console.log(`Public Key: ${kp.publicKey.toBase58()}`)
-    console.log(`Wallet saved to ./dev-wallet.json`)
+    return kp
 }
 
-function decodeKeypairToBase58() {
-    try {
-        const walletData = JSON.parse(fs.readFileSync('./dev-wallet.json', 'utf-8'))
-        const secretKey = new Uint8Array(walletData.privateKey)
-        const base58SecretKey = bs58.encode(secretKey)
-        console.log(`\nBase58 encoded secret key:`)
-        console.log(base58SecretKey)
-    } catch (error: any) {
-        console.error("\nError reading wallet file:", error.message)
+function generateWallet(out = './dev-wallet-new.json') {
+    return writeWalletFile(out, Keypair.generate())
+}
+
+type VanityPattern = { prefix?: string, suffix?: string }
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+
+// Plain JS so the workers don't depend on ts-node
+const VANITY_WORKER = `
+const { parentPort, workerData } = require("worker_threads");
+const { Keypair } = require(workerData.web3Path);
+for (;;) {
+    const keypair = Keypair.generate();
+    const address = keypair.publicKey.toBase58();
+    if (address.startsWith(workerData.prefix) && address.endsWith(workerData.suffix)) {
+        parentPort.postMessage(Array.from(keypair.secretKey));
+        break;
     }
 }
+`
+
+// `Number` would take "", "2.5" or "0x10" as well
+function parsePositiveInteger(value: string, name: string) {
+    if (!/^\d+$/.test(value.trim()) || Number(value) < 1) throw new Error(`Invalid ${name} '${value}', expected a positive integer`)
+    return Number(value)
+}
+
+function grindVanityKeypair({ prefix = '', suffix = '' }: VanityPattern, threads = Math.max(os.cpus().length - 1, 1)) {
+    if (!prefix && !suffix) throw new Error("Vanity pattern needs a prefix and / or a suffix")
+    // No worker at all would never settle
+    if (!Number.isInteger(threads) || threads < 1) throw new Error(`threads must be a positive integer, got ${threads}`)
+    const invalid = [...prefix, ...suffix].filter((char) => !BASE58_ALPHABET.includes(char))
+    if (invalid.length > 0) throw new Error(`Not in the base58 alphabet (no 0, O, I or l): ${invalid.join(', ')}`)
+
+    const workerData = { web3Path: require.resolve('@solana/web3.js'), prefix, suffix }
+
+    return new Promise<Keypair>((resolve, reject) => {
+        const workers: Worker[] = []
+        const finish = (settle: () => void) => {
+            workers.forEach((worker) => worker.terminate())
+            settle()
+        }
+
+        for (let i = 0; i < threads; i++) {
+            const worker = new Worker(VANITY_WORKER, { eval: true, workerData })
+            worker.once('message', (secretKey: number[]) =>
+                finish(() => resolve(Keypair.fromSecretKey(Uint8Array.from(secretKey)))))
+            worker.once('error', (err) => finish(() => reject(err)))
+            workers.push(worker)
+        }
+    })
+}
+
+async function generateVanityWallet(pattern: VanityPattern, out = './dev-wallet-new.json', threads?: number) {
+    return writeWalletFile(out, await grindVanityKeypair(pattern, threads))
+}
+
+// Appends to the manifest of a previous batch in the same directory, wallet files are never overwritten
+async function generateKeypairBatch(count: number, dir: string, pattern?: VanityPattern, threads?: number) {
+    if (!Number.isInteger(count) || count < 1) throw new Error(`count must be a positive integer, got ${count}`)
+    if (threads !== undefined && (!Number.isInteger(threads) || threads < 1)) throw new Error(`threads must be a positive integer, got ${threads}`)
+    fs.mkdirSync(dir, { recursive: true })
+
+    const manifestPath = path.join(dir, 'manifest.json')
+    const keypairs: { index: number, publicKey: string, file: string }[] = fs.existsSync(manifestPath)
+        ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).keypairs
+        : []
+    const firstIndex = keypairs.length
+
+    for (let index = firstIndex; index < firstIndex + count; index++) {
+        const kp = pattern ? await grindVanityKeypair(pattern, threads) : Keypair.generate()
+        const { publicKey } = writeWalletFile(path.join(dir, `${kp.publicKey.toBase58()}.json`), kp, { flag: 'wx', mode: 0o600 })
+        keypairs.push({ index, publicKey, file: `${publicKey}.json` })
+    }
+
+    fs.writeFileSync(manifestPath, JSON.stringify({ updatedAt: new Date().toISOString(), keypairs }, null, 2))
+    return { manifestPath, keypairs: keypairs.slice(firstIndex) }
+}
+
+function walletToBase58(file = './dev-wallet.json') {
+    const kp = readWalletFile(file)
+    return { publicKey: kp.publicKey.toBase58(), secretKey: bs58.encode(kp.secretKey) }
+}
 
-async function viewWallet(filename: string) {
-    const walletData = JSON.parse(fs.readFileSync(`./${filename}`, 'utf-8'))
-    console.log(`\nSolana Wallet:`)
-    console.log(`Public Key: ${walletData.publicKey}`)
-    console.log(`Private Key: ${walletData.privateKey}`)
+function base58ToWallet(key: string, out = './Turbin3-wallet.json') {
+    return writeWalletFile(out, Keypair.fromSecretKey(bs58.decode(key.trim())))
+}
+
+function bytesToWallet(bytes: string, out = './Turbin3-wallet.json') {
+    const secretKey = JSON.parse(bytes)
+    if (!Array.isArray(secretKey)) throw new Error("Expected a JSON byte array")
+    return writeWalletFile(out, Keypair.fromSecretKey(new Uint8Array(secretKey)))
+}
+
+async function viewWallet(file: string) {
+    const kp = readWalletFile(file)
     const connection = new Connection("https://api.devnet.solana.com");
-    const balance = await connection.getBalance(new PublicKey(walletData.publicKey));
-    console.log(`Balance: ${balance / LAMPORTS_PER_SOL} SOL`)
+    const balance = await connection.getBalance(kp.publicKey);
+    return { keypair: kp, balance: balance / LAMPORTS_PER_SOL }
 }
 
-async function viewDevWallet() {
-    await viewWallet("dev-wallet.json")
+/* Subcommands */
+
+// Parsed by `main` inside its try, so an unknown flag is reported like any other command error
+function parseCommandLine() {
+    return parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string' },
+            file: { type: 'string' },
+            key: { type: 'string' },
+            bytes: { type: 'string' },
+            prefix: { type: 'string' },
+            suffix: { type: 'string' },
+            threads: { type: 'string' },
+            count: { type: 'string' },
+            dir: { type: 'string' },
+        },
+    })
 }
 
-async function viewTurbin3Wallet() {
-    await viewWallet("Turbin3-wallet.json")
+let values: ReturnType<typeof parseCommandLine>['values']
+
+function vanityPattern(): VanityPattern | undefined {
+    return values.prefix || values.suffix
+        ? { prefix: values.prefix, suffix: values.suffix }
+        : undefined
 }
 
+function required(name: 'key' | 'bytes' | 'count' | 'dir') {
+    const value = values[name]
+    if (!value) throw new Error(`Missing --${name}`)
+    return value
+}
 
-function convertBase58ToKeypair() {
-    const base58Key = input("\nEnter base58 secret key: ")
-    try {
-        const secretKey = bs58.decode(base58Key)
-        const kp = Keypair.fromSecretKey(secretKey)
-        const walletFile = {
-            privateKey: Array.from(secretKey),
-            publicKey: kp.publicKey.toBase58()
+// Parsed here rather than at load, so a bad value is reported like any other command error
+function threads() {
+    return values.threads === undefined ? undefined : parsePositiveInteger(values.threads, '--threads')
+}
+
+async function runCommand(command: string) {
+    const pattern = vanityPattern()
+
+    switch (command) {
+        case 'generate':
+            return pattern
+                ? generateVanityWallet(pattern, values.out, threads())
+                : generateWallet(values.out)
+        case 'batch':
+            return generateKeypairBatch(parsePositiveInteger(required('count'), '--count'), required('dir'), pattern, threads())
+        case 'to-base58':
+            return walletToBase58(values.file)
+        case 'from-base58':
+            return base58ToWallet(required('key'), values.out)
+        case 'from-bytes':
+            return bytesToWallet(required('bytes'), values.out)
+        case 'view': {
+            const { keypair, balance } = await viewWallet(values.file ?? './dev-wallet.json')
+            return { publicKey: keypair.publicKey.toBase58(), balance }
         }
-        
-        fs.writeFileSync('./Turbin3-wallet.json', JSON.stringify(walletFile, null, 2))
-        console.log(`\nWallet converted and saved!`)
-        console.log(`Public Key: ${kp.publicKey.toBase58()}`)
-        console.log(`Wallet saved to ./Turbin3-wallet.json`)
-    } catch (error: any) {
-        console.error("\nError converting base58 key:", error.message)
+        default:
+            throw new Error(`Unknown command: ${command}`)
+    }
+}
+
+/* Interactive menu */
+
+const MENU = [
+    "Generate new keypair",
+    "Decode keypair file to base58",
+    "Convert base58 to keypair JSON",
+    "View dev wallet",
+    "View Turbin3 wallet",
+    "Create Keypair from Binary",
+    "Grind vanity keypair",
+    "Generate keypair batch",
+    "Exit",
+]
+
+function displayMenu() {
+    console.log("\nSolana Wallet Tool");
+    MENU.forEach((label, index) => console.log(`${index + 1}. ${label}`));
+    return input(`Select an option (1-${MENU.length}): `);
+}
+
+async function runMenuOption(choice: string) {
+    switch (choice) {
+        case '1': {
+            const { publicKey, file } = generateWallet()
+            console.log(`\nNew Solana wallet generated!`)
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '2':
+            console.log(`\nBase58 encoded secret key:`)
+            console.log(walletToBase58().secretKey)
+            break
+        case '3': {
+            const { publicKey, file } = base58ToWallet(input("\nEnter base58 secret key: "))
+            console.log(`\nWallet converted and saved!`)
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '4':
+        case '5': {
+            const filename = choice === '4' ? './dev-wallet.json' : './Turbin3-wallet.json'
+            const { keypair, balance } = await viewWallet(filename)
+            console.log(`\nSolana Wallet:`)
+            console.log(`Public Key: ${keypair.publicKey.toBase58()}`)
+            console.log(`Private Key: ${Array.from(keypair.secretKey)}`)
+            console.log(`Balance: ${balance} SOL`)
+            break
+        }
+        case '6': {
+            const { publicKey } = bytesToWallet(input("\nEnter binary secret key: "))
+            console.log(`\nWallet converted and saved!`)
+            console.log(`Public Key: ${publicKey}`)
+            break
+        }
+        case '7': {
+            const prefix = input("\nPrefix (optional): ") || undefined
+            const suffix = input("Suffix (optional): ") || undefined
+            console.log(`\nGrinding...`)
+            const { publicKey, file } = await generateVanityWallet({ prefix, suffix })
+            console.log(`Public Key: ${publicKey}`)
+            console.log(`Wallet saved to ${file}`)
+            break
+        }
+        case '8': {
+            const count = parsePositiveInteger(input("\nHow many keypairs? "), 'count')
+            const dir = input("Directory (./wallets): ") || './wallets'
+            const { manifestPath, keypairs } = await generateKeypairBatch(count, dir)
+            keypairs.forEach(({ index, publicKey }) => console.log(`${index}. ${publicKey}`))
+            console.log(`\nManifest saved to ${manifestPath}`)
+            break
+        }
+        case '9':
+            console.log("\nGoodbye!")
+            process.exit(0)
+        default:
+            console.log("\nInvalid option. Please try again.")
     }
 }
 
 async function main() {
+    try {
+        const { positionals: [command], values: parsed } = parseCommandLine()
+        values = parsed
+
+        if (command) {
+            console.log(JSON.stringify(await runCommand(command)))
+            process.exit(0)
+        }
+    } catch (error: any) {
+        console.error(JSON.stringify({ error: error.message }))
+        process.exit(1)
+    }
+
     while (true) {
-        const choice = displayMenu()
-        
-        switch (choice) {
-            case '1':
-                generateNewKeypair()
-                break
-            case '2':
-                decodeKeypairToBase58()
-                break
-            case '3':
-                convertBase58ToKeypair()
-                break
-            case '4':
-                await viewDevWallet()
-                break
-            case '5':
-                await viewTurbin3Wallet()
-                break
-            case '6':
-                createKeypairFromBinary()
-                break
-            case '7':
-                console.log("\nGoodbye!")
-                process.exit(0)
-            default:
-                console.log("\nInvalid option. Please try again.")
+        try {
+            await runMenuOption(displayMenu())
+        } catch (error: any) {
+            console.error("\nError:", error.message)
         }
     }
 }
 
 main()
-